@@ -0,0 +1,351 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { sendMail, MailMessage, escapeHtml } from '../utils/mailer.js';
+
+type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+interface DigestUser {
+  id: string;
+  email: string;
+  fullName: string | null;
+  digestFrequency: DigestFrequency | 'OFF';
+}
+
+interface DigestContent {
+  notifications: { title: string; message: string; createdAt: Date }[];
+  posts: { content: string; createdAt: Date; pod: { name: string }; author: { fullName: string | null; username: string } }[];
+  totalPosts: number;
+  events: { name: string; date: Date; time: string; pod: { name: string } }[];
+  messageRequests: { sender: { fullName: string | null; username: string } }[];
+  callBookings: { purpose: string; requester: { fullName: string | null; username: string } }[];
+}
+
+// Hour of the day (UTC) from which digests for the current period go out
+const DIGEST_SEND_HOUR = parseInt(process.env.DIGEST_SEND_HOUR || '8', 10);
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const USER_BATCH_SIZE = 100;
+const MAX_POSTS = 10;
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+/**
+ * ISO 8601 week key (e.g. "2025-W01") of a date
+ */
+const getIsoWeekKey = (date: Date): string => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * Key identifying the digest period a date falls into. One digest is sent per user per key.
+ */
+export const getDigestPeriodKey = (frequency: DigestFrequency, date: Date): string => {
+  return frequency === 'DAILY'
+    ? `daily:${date.toISOString().slice(0, 10)}`
+    : `weekly:${getIsoWeekKey(date)}`;
+};
+
+const displayName = (user: { fullName: string | null; username: string }): string => {
+  return user.fullName || user.username;
+};
+
+const truncate = (value: string, length: number = 140): string => {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+};
+
+/**
+ * Gather everything worth mentioning in a user's digest since the given date
+ */
+const collectDigestContent = async (user: DigestUser, since: Date): Promise<DigestContent> => {
+  const [memberships, ownedPods, disabledTypes] = await Promise.all([
+    prisma.podMember.findMany({ where: { userId: user.id }, select: { podId: true } }),
+    prisma.pod.findMany({ where: { ownerId: user.id }, select: { id: true } }),
+    prisma.notificationPreference.findMany({
+      where: { userId: user.id, emailDigest: false },
+      select: { type: true }
+    })
+  ]);
+
+  const podIds = [...new Set([...memberships.map(m => m.podId), ...ownedPods.map(p => p.id)])];
+  const now = new Date();
+  const upcomingUntil = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+  const postsWhere: Prisma.PostWhereInput = {
+    podId: { in: podIds },
+    authorId: { not: user.id },
+    status: 'PUBLISHED',
+    hiddenAt: null,
+    createdAt: { gt: since }
+  };
+
+  const [notifications, posts, totalPosts, events, messageRequests, callBookings] = await Promise.all([
+    prisma.notification.findMany({
+      where: {
+        userId: user.id,
+        isRead: false,
+        createdAt: { gt: since },
+        type: { notIn: disabledTypes.map(t => t.type) }
+      },
+      select: { title: true, message: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    }),
+    prisma.post.findMany({
+      where: postsWhere,
+      select: {
+        content: true,
+        createdAt: true,
+        pod: { select: { name: true } },
+        author: { select: { fullName: true, username: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_POSTS
+    }),
+    prisma.post.count({ where: postsWhere }),
+    prisma.event.findMany({
+      where: {
+        podId: { in: podIds },
+        date: { gte: now, lte: upcomingUntil }
+      },
+      select: { name: true, date: true, time: true, pod: { select: { name: true } } },
+      orderBy: { date: 'asc' }
+    }),
+    prisma.messageRequest.findMany({
+      where: { receiverId: user.id, status: 'PENDING' },
+      select: { sender: { select: { fullName: true, username: true } } }
+    }),
+    prisma.callBooking.findMany({
+      where: { targetUserId: user.id, status: 'PENDING' },
+      select: { purpose: true, requester: { select: { fullName: true, username: true } } }
+    })
+  ]);
+
+  return { notifications, posts, totalPosts, events, messageRequests, callBookings };
+};
+
+const isDigestEmpty = (content: DigestContent): boolean => {
+  return content.notifications.length === 0 &&
+    content.posts.length === 0 &&
+    content.events.length === 0 &&
+    content.messageRequests.length === 0 &&
+    content.callBookings.length === 0;
+};
+
+/**
+ * Render a digest as an HTML + plain text email
+ */
+export const renderDigest = (user: DigestUser, frequency: DigestFrequency, content: DigestContent): MailMessage => {
+  const period = frequency === 'DAILY' ? 'today' : 'this week';
+  const sections: { title: string; items: string[] }[] = [];
+
+  if (content.notifications.length > 0) {
+    sections.push({
+      title: 'Unread notifications',
+      items: content.notifications.map(n => `${n.title}: ${n.message}`)
+    });
+  }
+
+  if (content.posts.length > 0) {
+    const more = content.totalPosts - content.posts.length;
+    sections.push({
+      title: 'New posts in your pods',
+      items: [
+        ...content.posts.map(p => `${displayName(p.author)} in ${p.pod.name}: ${truncate(p.content)}`),
+        ...(more > 0 ? [`…and ${more} more`] : [])
+      ]
+    });
+  }
+
+  if (content.events.length > 0) {
+    sections.push({
+      title: 'Upcoming events',
+      items: content.events.map(e => `${e.name} (${e.pod.name}) on ${e.date.toDateString()} at ${e.time}`)
+    });
+  }
+
+  if (content.messageRequests.length > 0) {
+    sections.push({
+      title: 'Pending message requests',
+      items: content.messageRequests.map(r => `${displayName(r.sender)} wants to message you`)
+    });
+  }
+
+  if (content.callBookings.length > 0) {
+    sections.push({
+      title: 'Pending call requests',
+      items: content.callBookings.map(b => `${displayName(b.requester)}: ${truncate(b.purpose)}`)
+    });
+  }
+
+  const greeting = `Hi ${user.fullName || 'there'}, here is what happened in your pods ${period}.`;
+
+  const text = [
+    greeting,
+    ...sections.map(section => `\n${section.title}\n${section.items.map(item => `- ${item}`).join('\n')}`),
+    `\nOpen Zubix Pod: ${CLIENT_URL}`,
+    'You can change how often you get this email in your notification settings.'
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...sections.map(section =>
+      `<h3>${escapeHtml(section.title)}</h3><ul>${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    ),
+    `<p><a href="${CLIENT_URL}">Open Zubix Pod</a></p>`,
+    '<p style="color:#888">You can change how often you get this email in your notification settings.</p>'
+  ].join('');
+
+  return {
+    to: user.email,
+    subject: frequency === 'DAILY' ? 'Your daily Zubix Pod digest' : 'Your weekly Zubix Pod digest',
+    text,
+    html
+  };
+};
+
+/**
+ * Send the digest for the current period to one user, at most once.
+ * The period is claimed by inserting a DigestRun row before sending, so a
+ * restart or a second server instance can never send the same digest twice.
+ * A failed send releases the claim so the period is retried.
+ */
+const sendDigestToUser = async (user: DigestUser, frequency: DigestFrequency, now: Date): Promise<boolean> => {
+  const periodKey = getDigestPeriodKey(frequency, now);
+
+  const lastRun = await prisma.digestRun.findFirst({
+    where: { userId: user.id, sentAt: { not: null } },
+    orderBy: { sentAt: 'desc' },
+    select: { sentAt: true }
+  });
+
+  const fallbackSince = new Date(now.getTime() - (frequency === 'DAILY' ? 1 : 7) * 24 * 60 * 60 * 1000);
+  const since = lastRun?.sentAt ?? fallbackSince;
+
+  let runId: string;
+  try {
+    const run = await prisma.digestRun.create({
+      data: { userId: user.id, frequency, periodKey }
+    });
+    runId = run.id;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      // Already handled for this period
+      return false;
+    }
+    throw error;
+  }
+
+  const content = await collectDigestContent(user, since);
+
+  if (isDigestEmpty(content)) {
+    // The period stays claimed so an empty digest is not re-evaluated every hour
+    return false;
+  }
+
+  try {
+    await sendMail(renderDigest(user, frequency, content));
+  } catch (error) {
+    // Release the claim so the next tick retries this period
+    await prisma.digestRun.delete({ where: { id: runId } });
+    throw error;
+  }
+
+  await prisma.digestRun.update({
+    where: { id: runId },
+    data: { sentAt: new Date() }
+  });
+
+  return true;
+};
+
+/**
+ * Send due digests to every opted-in, verified user
+ */
+export const runDigestJob = async (now: Date = new Date()): Promise<number> => {
+  if (now.getUTCHours() < DIGEST_SEND_HOUR) {
+    return 0;
+  }
+
+  // One weekly digest per ISO week, on the first run at or after the send hour. That is
+  // Monday while the server is up, but any weekday for users who just switched to weekly.
+  const frequencies: DigestFrequency[] = ['DAILY', 'WEEKLY'];
+  let sent = 0;
+
+  for (const frequency of frequencies) {
+    let cursor: string | undefined;
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: {
+          digestFrequency: frequency,
+          emailVerifiedAt: { not: null }
+        },
+        select: { id: true, email: true, fullName: true, digestFrequency: true },
+        orderBy: { id: 'asc' },
+        take: USER_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      for (const user of users) {
+        try {
+          if (await sendDigestToUser(user, frequency, now)) {
+            sent++;
+          }
+        } catch (error) {
+          console.error(`Digest error for user ${user.id}:`, error);
+        }
+      }
+
+      if (users.length < USER_BATCH_SIZE) {
+        break;
+      }
+      cursor = users[users.length - 1].id;
+    }
+  }
+
+  return sent;
+};
+
+let digestTimer: NodeJS.Timeout | null = null;
+let digestRunning = false;
+
+/**
+ * Check for due digests every hour
+ */
+export const startDigestScheduler = (): void => {
+  if (digestTimer) {
+    return;
+  }
+
+  const tick = async () => {
+    // Skip a tick if the previous run has not finished yet
+    if (digestRunning) {
+      return;
+    }
+
+    digestRunning = true;
+    try {
+      const sent = await runDigestJob();
+      if (sent > 0) {
+        console.log(`Sent ${sent} email digest(s)`);
+      }
+    } catch (error) {
+      console.error('Digest job error:', error);
+    } finally {
+      digestRunning = false;
+    }
+  };
+
+  digestTimer = setInterval(tick, DIGEST_CHECK_INTERVAL_MS);
+  tick();
+};
+
+export const stopDigestScheduler = (): void => {
+  if (digestTimer) {
+    clearInterval(digestTimer);
+    digestTimer = null;
+  }
+};
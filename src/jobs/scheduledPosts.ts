@@ -0,0 +1,84 @@
+import prisma from '../utils/prisma.js';
+import { publishPost } from '../utils/postPublishing.js';
+
+const SCHEDULED_POSTS_CHECK_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 50;
+
+/**
+ * Publish every scheduled post whose time has come
+ */
+export const runScheduledPostsJob = async (): Promise<number> => {
+  let published = 0;
+
+  while (true) {
+    const due = await prisma.post.findMany({
+      where: { status: 'SCHEDULED', scheduledAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { scheduledAt: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    let batchPublished = 0;
+
+    for (const post of due) {
+      try {
+        if (await publishPost(post.id, true)) {
+          batchPublished++;
+        }
+      } catch (error) {
+        console.error(`Scheduled post error for post ${post.id}:`, error);
+      }
+    }
+
+    published += batchPublished;
+
+    // Stop on a short batch, or when nothing in a full batch could be published (avoids spinning on failures)
+    if (due.length < BATCH_SIZE || batchPublished === 0) {
+      break;
+    }
+  }
+
+  return published;
+};
+
+let scheduledPostsTimer: NodeJS.Timeout | null = null;
+let scheduledPostsRunning = false;
+
+/**
+ * Check for due scheduled posts every minute. Posts that became due while the
+ * server was down are published on the first run after a restart.
+ */
+export const startScheduledPostsScheduler = (): void => {
+  if (scheduledPostsTimer) {
+    return;
+  }
+
+  const tick = async () => {
+    // Skip a tick if the previous run has not finished yet
+    if (scheduledPostsRunning) {
+      return;
+    }
+
+    scheduledPostsRunning = true;
+    try {
+      const published = await runScheduledPostsJob();
+      if (published > 0) {
+        console.log(`Published ${published} scheduled post(s)`);
+      }
+    } catch (error) {
+      console.error('Scheduled posts job error:', error);
+    } finally {
+      scheduledPostsRunning = false;
+    }
+  };
+
+  scheduledPostsTimer = setInterval(tick, SCHEDULED_POSTS_CHECK_INTERVAL_MS);
+  tick();
+};
+
+export const stopScheduledPostsScheduler = (): void => {
+  if (scheduledPostsTimer) {
+    clearInterval(scheduledPostsTimer);
+    scheduledPostsTimer = null;
+  }
+};
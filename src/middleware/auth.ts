@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt.js';
 import prisma from '../utils/prisma.js';
+import { isSessionActive } from '../utils/sessions.js';
+import { PodAccess } from '../utils/permissions.js';
 
 export interface AuthenticatedUser {
   id: string;
@@ -9,10 +11,14 @@ export interface AuthenticatedUser {
   role: string;
   fullName: string | null;
   profilePhoto: string | null;
+  emailVerifiedAt: Date | null;
 }
 
 export interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser;
+  sessionId?: string;
+  // Set by requirePodPermission
+  podAccess?: PodAccess & { podId: string };
 }
 
 export const authMiddleware = async (
@@ -31,11 +37,16 @@ export const authMiddleware = async (
     const token = authHeader.substring(7);
     const decoded = verifyToken(token);
 
-    if (!decoded) {
+    if (!decoded || !decoded.sessionId) {
       res.status(401).json({ error: 'Invalid or expired token' });
       return;
     }
 
+    if (!(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({ error: 'Session has been revoked' });
+      return;
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
       select: { 
@@ -44,7 +55,8 @@ export const authMiddleware = async (
         username: true, 
         role: true, 
         fullName: true, 
-        profilePhoto: true 
+        profilePhoto: true,
+        emailVerifiedAt: true
       }
     });
 
@@ -54,6 +66,7 @@ export const authMiddleware = async (
     }
 
     req.user = user as AuthenticatedUser;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
@@ -76,3 +89,27 @@ export const isPodOwner = (
   }
   next();
 };
+
+export const isPlatformAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.role !== 'PLATFORM_ADMIN') {
+    res.status(403).json({ error: 'Only platform admins can perform this action' });
+    return;
+  }
+  next();
+};
+
+export const requireVerifiedEmail = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user?.emailVerifiedAt) {
+    res.status(403).json({ error: 'Please verify your email address to perform this action' });
+    return;
+  }
+  next();
+};
@@ -1,12 +1,46 @@
 import express, { Response } from 'express';
 import { hashPassword, comparePassword } from '../utils/password.js';
-import { generateToken } from '../utils/jwt.js';
+import { generateAccessToken } from '../utils/jwt.js';
+import { createSession, rotateSession, revokeSession, revokeAllSessions, SessionContext } from '../utils/sessions.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
+import { sendMail, escapeHtml } from '../utils/mailer.js';
+import { issueUserToken, consumeUserToken } from '../utils/userTokens.js';
 
 const router = express.Router();
 
+const getSessionContext = (req: AuthenticatedRequest): SessionContext => ({
+  userAgent: req.headers['user-agent'],
+  ipAddress: req.ip
+});
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+const sendVerificationEmail = async (user: { id: string; email: string; fullName: string | null }): Promise<void> => {
+  const token = await issueUserToken(user.id, 'EMAIL_VERIFICATION');
+  const link = `${CLIENT_URL}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.fullName || 'there'},\n\nPlease verify your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+    html: `<p>Hi ${escapeHtml(user.fullName || 'there')},</p><p>Please verify your email address by opening <a href="${link}">this link</a>.</p><p>The link expires in 24 hours.</p>`
+  });
+};
+
+const sendPasswordResetEmail = async (user: { id: string; email: string; fullName: string | null }): Promise<void> => {
+  const token = await issueUserToken(user.id, 'PASSWORD_RESET');
+  const link = `${CLIENT_URL}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.fullName || 'there'},\n\nYou can reset your password by opening this link:\n${link}\n\nThe link expires in 30 minutes. If you did not request a reset, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.fullName || 'there')},</p><p>You can reset your password by opening <a href="${link}">this link</a>.</p><p>The link expires in 30 minutes. If you did not request a reset, you can ignore this email.</p>`
+  });
+};
+
 // Signup handler function (used by both /signup and /register)
 const signupHandler = [
   body('fullName').notEmpty().withMessage('Full name is required'),
@@ -64,14 +98,18 @@ const signupController = async (req: AuthenticatedRequest, res: Response): Promi
         role: true,
         fullName: true,
         profilePhoto: true,
+        emailVerifiedAt: true,
         createdAt: true
       }
     });
 
-    // Generate token
-    const token = generateToken(user.id, user.role);
+    // Signup succeeds even if the verification email cannot be sent; it can be requested again
+    sendVerificationEmail(user).catch(error => console.error('Send verification email error:', error));
+
+    // Start a session and issue tokens
+    const { token, refreshToken } = await createSession(user.id, user.role, getSessionContext(req));
 
-    res.status(201).json({ user, token });
+    res.status(201).json({ user, token, refreshToken });
   } catch (error) {
     console.error('Signup error:', error);
     res.status(500).json({ error: 'Registration failed' });
@@ -123,13 +161,13 @@ router.post('/login',
         return;
       }
 
-      // Generate token
-      const token = generateToken(user.id, user.role);
+      // Start a session and issue tokens
+      const { token, refreshToken } = await createSession(user.id, user.role, getSessionContext(req));
 
       // Return user without password
       const { password: _, ...userWithoutPassword } = user;
 
-      res.json({ user: userWithoutPassword, token });
+      res.json({ user: userWithoutPassword, token, refreshToken });
     } catch (error) {
       console.error('Login error:', error);
       res.status(500).json({ error: 'Login failed' });
@@ -137,6 +175,248 @@ router.post('/login',
   }
 );
 
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh',
+  [
+    body('refreshToken').notEmpty().withMessage('Refresh token is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const tokens = await rotateSession(req.body.refreshToken, getSessionContext(req));
+
+      if (!tokens) {
+        res.status(401).json({ error: 'Invalid or expired refresh token' });
+        return;
+      }
+
+      res.json(tokens);
+    } catch (error) {
+      console.error('Refresh token error:', error);
+      res.status(500).json({ error: 'Token refresh failed' });
+    }
+  }
+);
+
+// Logout (revokes the current session)
+router.post('/logout', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await revokeSession(req.sessionId!);
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// List active sessions (devices) of the current user
+router.get('/sessions', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user!.id,
+        revokedAt: null,
+        expiresAt: {
+          gt: new Date()
+        }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true
+      },
+      orderBy: {
+        lastUsedAt: 'desc'
+      }
+    });
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        isCurrent: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Revoke all sessions (logout everywhere, including the current device)
+router.delete('/sessions', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const count = await revokeAllSessions(req.user!.id);
+
+    res.json({ message: 'All sessions revoked', count });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Revoke a single session
+router.delete('/sessions/:sessionId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true }
+    });
+
+    if (!session || session.userId !== req.user!.id) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.revokedAt) {
+      res.status(400).json({ error: 'Session has already been revoked' });
+      return;
+    }
+
+    await revokeSession(sessionId);
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Send (or resend) the email verification link
+router.post('/verify-email/request', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (req.user!.emailVerifiedAt) {
+      res.status(400).json({ error: 'Email is already verified' });
+      return;
+    }
+
+    await sendVerificationEmail(req.user!);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Request email verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// Verify email address with a token from the verification email
+router.post('/verify-email',
+  [
+    body('token').notEmpty().withMessage('Token is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const userId = await consumeUserToken(req.body.token, 'EMAIL_VERIFICATION');
+
+      if (!userId) {
+        res.status(400).json({ error: 'Invalid or expired verification token' });
+        return;
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerifiedAt: new Date() }
+      });
+
+      res.json({ message: 'Email verified successfully' });
+    } catch (error) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ error: 'Email verification failed' });
+    }
+  }
+);
+
+// Request a password reset link
+router.post('/forgot-password',
+  [
+    body('email').isEmail().withMessage('Invalid email')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { email: req.body.email },
+        select: { id: true, email: true, fullName: true }
+      });
+
+      // Same response, sent without waiting for the mail, whether or not the account exists,
+      // so emails cannot be enumerated by content or timing
+      if (user) {
+        sendPasswordResetEmail(user).catch(error => {
+          console.error('Password reset email error:', error);
+        });
+      }
+
+      res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ error: 'Failed to request password reset' });
+    }
+  }
+);
+
+// Reset password with a token from the reset email
+router.post('/reset-password',
+  [
+    body('token').notEmpty().withMessage('Token is required'),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { token, password } = req.body;
+
+      const userId = await consumeUserToken(token, 'PASSWORD_RESET');
+
+      if (!userId) {
+        res.status(400).json({ error: 'Invalid or expired reset token' });
+        return;
+      }
+
+      const hashedPassword = await hashPassword(password);
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword }
+      });
+
+      // Sign out every device that may have been using the old password
+      await revokeAllSessions(userId);
+
+      res.json({ message: 'Password reset successfully' });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ error: 'Password reset failed' });
+    }
+  }
+);
+
 // Get current user
 router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   res.json({ user: req.user });
@@ -146,9 +426,14 @@ router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Respons
 // Update user role to POD_OWNER
 router.put('/role/pod-owner', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const updatedUser = await prisma.user.update({
+    // Only regular users are promoted; platform admins keep their role
+    await prisma.user.updateMany({
+      where: { id: req.user!.id, role: 'USER' },
+      data: { role: 'POD_OWNER' }
+    });
+
+    const updatedUser = await prisma.user.findUniqueOrThrow({
       where: { id: req.user!.id },
-      data: { role: 'POD_OWNER' },
       select: {
         id: true,
         email: true,
@@ -162,8 +447,8 @@ router.put('/role/pod-owner', authMiddleware, async (req: AuthenticatedRequest,
       }
     });
 
-    // Generate new token with updated role
-    const token = generateToken(updatedUser.id, updatedUser.role);
+    // Generate new access token with updated role for the current session
+    const token = generateAccessToken(updatedUser.id, updatedUser.role, req.sessionId!);
 
     res.json({ user: updatedUser, token });
   } catch (error) {
@@ -0,0 +1,475 @@
+import express, { Response } from 'express';
+import { BookmarkTargetType } from '@prisma/client';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { body, validationResult } from 'express-validator';
+import prisma from '../utils/prisma.js';
+import { accessiblePodsWhere } from '../utils/permissions.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+
+const router = express.Router();
+
+// Query/body values of `type` mapped to the stored target type
+const BOOKMARK_TYPES: Record<string, BookmarkTargetType> = {
+  post: 'POST',
+  event: 'EVENT',
+  pitch: 'PITCH',
+  pod: 'POD'
+};
+
+/**
+ * Load the bookmarked items of one type that the user can still access, keyed by id.
+ * Items that were deleted or became inaccessible (e.g. after leaving a pod) are left out.
+ */
+const findAccessibleTargets = async (
+  targetType: BookmarkTargetType,
+  ids: string[],
+  userId: string
+): Promise<Map<string, unknown>> => {
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const podAccess = accessiblePodsWhere(userId);
+  let items: { id: string }[];
+
+  switch (targetType) {
+    case 'POST':
+      items = await prisma.post.findMany({
+        where: { id: { in: ids }, status: 'PUBLISHED', hiddenAt: null, pod: podAccess },
+        select: {
+          id: true,
+          content: true,
+          mediaUrls: true,
+          createdAt: true,
+          pod: { select: { id: true, name: true } },
+          author: { select: { id: true, username: true, fullName: true, profilePhoto: true } }
+        }
+      });
+      break;
+    case 'EVENT':
+      items = await prisma.event.findMany({
+        where: { id: { in: ids }, pod: podAccess },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          date: true,
+          time: true,
+          location: true,
+          imageUrl: true,
+          pod: { select: { id: true, name: true } }
+        }
+      });
+      break;
+    case 'PITCH':
+      // Pitches are only visible to their founder and the pod's owner and co-owners
+      items = await prisma.pitch.findMany({
+        where: {
+          id: { in: ids },
+          OR: [
+            { founderId: userId },
+            { pod: { ownerId: userId } },
+            { pod: { coOwners: { some: { id: userId } } } }
+          ]
+        },
+        select: {
+          id: true,
+          startupName: true,
+          summary: true,
+          sector: true,
+          stage: true,
+          status: true,
+          pod: { select: { id: true, name: true } }
+        }
+      });
+      break;
+    case 'POD':
+      items = await prisma.pod.findMany({
+        where: {
+          id: { in: ids },
+          OR: [
+            { isPublic: true, isApproved: true },
+            podAccess
+          ]
+        },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          avatar: true,
+          logo: true,
+          subcategory: true
+        }
+      });
+      break;
+  }
+
+  return new Map(items.map(item => [item.id, item]));
+};
+
+// Get bookmarks, optionally filtered by type and folder
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { type, folderId } = req.query;
+    const userId = req.user!.id;
+
+    if (type !== undefined && !BOOKMARK_TYPES[type as string]) {
+      res.status(400).json({ error: `Type must be one of: ${Object.keys(BOOKMARK_TYPES).join(', ')}` });
+      return;
+    }
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const bookmarks = await prisma.bookmark.findMany({
+      where: {
+        userId,
+        ...(type !== undefined && { targetType: BOOKMARK_TYPES[type as string] }),
+        // folderId=none lists bookmarks that are not in a folder
+        ...(typeof folderId === 'string' && { folderId: folderId === 'none' ? null : folderId })
+      },
+      include: {
+        folder: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(bookmarks, pagination.limit);
+
+    const targetTypes = [...new Set(items.map(b => b.targetType))];
+    const resolved = await Promise.all(
+      targetTypes.map(async targetType => [
+        targetType,
+        await findAccessibleTargets(
+          targetType,
+          items.filter(b => b.targetType === targetType).map(b => b.targetId),
+          userId
+        )
+      ] as const)
+    );
+    const targetsByType = new Map(resolved);
+
+    // Hide bookmarks whose item is gone or no longer accessible; a page can therefore be shorter than `limit`
+    const visible = items
+      .map(bookmark => ({
+        ...bookmark,
+        type: bookmark.targetType.toLowerCase(),
+        item: targetsByType.get(bookmark.targetType)?.get(bookmark.targetId)
+      }))
+      .filter(bookmark => bookmark.item !== undefined);
+
+    res.json({ bookmarks: visible, nextCursor });
+  } catch (error) {
+    console.error('Get bookmarks error:', error);
+    res.status(500).json({ error: 'Failed to fetch bookmarks' });
+  }
+});
+
+// Bookmark an item
+router.post('/',
+  authMiddleware,
+  [
+    body('type').isIn(Object.keys(BOOKMARK_TYPES)).withMessage(`Type must be one of: ${Object.keys(BOOKMARK_TYPES).join(', ')}`),
+    body('targetId').notEmpty().withMessage('Target ID is required'),
+    body('folderId').optional({ values: 'null' }).isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { type, targetId, folderId } = req.body;
+      const userId = req.user!.id;
+      const targetType = BOOKMARK_TYPES[type];
+
+      const targets = await findAccessibleTargets(targetType, [targetId], userId);
+      if (!targets.has(targetId)) {
+        res.status(404).json({ error: 'Item not found' });
+        return;
+      }
+
+      if (folderId) {
+        const folder = await prisma.bookmarkFolder.findFirst({
+          where: { id: folderId, userId }
+        });
+
+        if (!folder) {
+          res.status(404).json({ error: 'Folder not found' });
+          return;
+        }
+      }
+
+      const existing = await prisma.bookmark.findUnique({
+        where: {
+          userId_targetType_targetId: {
+            userId,
+            targetType,
+            targetId
+          }
+        }
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'You have already bookmarked this item' });
+        return;
+      }
+
+      const bookmark = await prisma.bookmark.create({
+        data: {
+          userId,
+          targetType,
+          targetId,
+          folderId: folderId || null
+        }
+      });
+
+      res.status(201).json({ bookmark });
+    } catch (error) {
+      console.error('Create bookmark error:', error);
+      res.status(500).json({ error: 'Failed to bookmark item' });
+    }
+  }
+);
+
+// Remove a bookmark by item
+router.delete('/',
+  authMiddleware,
+  [
+    body('type').isIn(Object.keys(BOOKMARK_TYPES)).withMessage(`Type must be one of: ${Object.keys(BOOKMARK_TYPES).join(', ')}`),
+    body('targetId').notEmpty().withMessage('Target ID is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { type, targetId } = req.body;
+
+      const result = await prisma.bookmark.deleteMany({
+        where: {
+          userId: req.user!.id,
+          targetType: BOOKMARK_TYPES[type],
+          targetId
+        }
+      });
+
+      if (result.count === 0) {
+        res.status(404).json({ error: 'Bookmark not found' });
+        return;
+      }
+
+      res.json({ message: 'Bookmark removed successfully' });
+    } catch (error) {
+      console.error('Delete bookmark error:', error);
+      res.status(500).json({ error: 'Failed to remove bookmark' });
+    }
+  }
+);
+
+// Get bookmark folders
+router.get('/folders', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const folders = await prisma.bookmarkFolder.findMany({
+      where: { userId: req.user!.id },
+      include: {
+        _count: {
+          select: {
+            bookmarks: true
+          }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    res.json({ folders });
+  } catch (error) {
+    console.error('Get bookmark folders error:', error);
+    res.status(500).json({ error: 'Failed to fetch folders' });
+  }
+});
+
+// Create a bookmark folder
+router.post('/folders',
+  authMiddleware,
+  [
+    body('name').trim().notEmpty().withMessage('Folder name is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { name } = req.body;
+
+      const existing = await prisma.bookmarkFolder.findUnique({
+        where: {
+          userId_name: {
+            userId: req.user!.id,
+            name
+          }
+        }
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'A folder with this name already exists' });
+        return;
+      }
+
+      const folder = await prisma.bookmarkFolder.create({
+        data: {
+          userId: req.user!.id,
+          name
+        }
+      });
+
+      res.status(201).json({ folder });
+    } catch (error) {
+      console.error('Create bookmark folder error:', error);
+      res.status(500).json({ error: 'Failed to create folder' });
+    }
+  }
+);
+
+// Rename a bookmark folder
+router.put('/folders/:folderId',
+  authMiddleware,
+  [
+    body('name').trim().notEmpty().withMessage('Folder name is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { folderId } = req.params;
+      const { name } = req.body;
+
+      const folder = await prisma.bookmarkFolder.findFirst({
+        where: { id: folderId, userId: req.user!.id }
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found' });
+        return;
+      }
+
+      const duplicate = await prisma.bookmarkFolder.findFirst({
+        where: { userId: req.user!.id, name, id: { not: folderId } }
+      });
+
+      if (duplicate) {
+        res.status(400).json({ error: 'A folder with this name already exists' });
+        return;
+      }
+
+      const updatedFolder = await prisma.bookmarkFolder.update({
+        where: { id: folderId },
+        data: { name }
+      });
+
+      res.json({ folder: updatedFolder });
+    } catch (error) {
+      console.error('Update bookmark folder error:', error);
+      res.status(500).json({ error: 'Failed to update folder' });
+    }
+  }
+);
+
+// Delete a bookmark folder (its bookmarks are kept, outside any folder)
+router.delete('/folders/:folderId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { folderId } = req.params;
+
+    const result = await prisma.bookmarkFolder.deleteMany({
+      where: { id: folderId, userId: req.user!.id }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Folder not found' });
+      return;
+    }
+
+    res.json({ message: 'Folder deleted successfully' });
+  } catch (error) {
+    console.error('Delete bookmark folder error:', error);
+    res.status(500).json({ error: 'Failed to delete folder' });
+  }
+});
+
+// Move a bookmark to another folder (or out of any folder with null)
+router.put('/:bookmarkId',
+  authMiddleware,
+  [
+    body('folderId').optional({ values: 'null' }).isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { bookmarkId } = req.params;
+      const folderId: string | null = req.body.folderId ?? null;
+
+      const bookmark = await prisma.bookmark.findFirst({
+        where: { id: bookmarkId, userId: req.user!.id }
+      });
+
+      if (!bookmark) {
+        res.status(404).json({ error: 'Bookmark not found' });
+        return;
+      }
+
+      if (folderId) {
+        const folder = await prisma.bookmarkFolder.findFirst({
+          where: { id: folderId, userId: req.user!.id }
+        });
+
+        if (!folder) {
+          res.status(404).json({ error: 'Folder not found' });
+          return;
+        }
+      }
+
+      const updatedBookmark = await prisma.bookmark.update({
+        where: { id: bookmarkId },
+        data: { folderId }
+      });
+
+      res.json({ bookmark: updatedBookmark });
+    } catch (error) {
+      console.error('Move bookmark error:', error);
+      res.status(500).json({ error: 'Failed to move bookmark' });
+    }
+  }
+);
+
+export default router;
@@ -4,6 +4,7 @@ import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
 import { userSelectMinimal } from '../utils/permissions.js';
+import { createNotification } from './notifications.js';
 
 const router = express.Router();
 
@@ -206,6 +207,15 @@ router.post('/',
         }
       });
 
+      await createNotification(
+        targetUserId,
+        'call_booking',
+        'New call request',
+        `${req.user!.fullName || req.user!.username} requested a call about ${pod.name}`,
+        booking.id,
+        { podId }
+      );
+
       res.status(201).json({ booking });
     } catch (error) {
       console.error('Create booking error:', error);
@@ -286,6 +296,15 @@ router.post('/:bookingId/respond',
         }
       });
 
+      await createNotification(
+        booking.requesterId,
+        'call_booking',
+        updatedBooking.status === 'ACCEPTED' ? 'Call request accepted' : 'Call request declined',
+        `${req.user!.fullName || req.user!.username} ${updatedBooking.status === 'ACCEPTED' ? 'accepted' : 'declined'} your call request${remark ? `: ${remark}` : ''}`,
+        bookingId,
+        { podId: booking.podId }
+      );
+
       res.json({ booking: updatedBooking });
     } catch (error) {
       console.error('Respond to booking error:', error);
@@ -2,68 +2,99 @@ import express, { Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
+import { getPagination, paginate, encodeCursor, getOffsetPagination, paginateOffsetRows, MESSAGE_PAGE_LIMIT } from '../utils/pagination.js';
+import { syncMentions, chatAudience } from '../utils/mentions.js';
+import { withReactions } from '../utils/messageReactions.js';
+import { markChatRead, getChatUnreadCounts } from '../utils/readMarkers.js';
 
 const router = express.Router();
 
+/**
+ * How far the other participants have read, for showing "seen" on your messages
+ */
+const toReadReceipts = (participants: { userId: string; lastReadAt: Date | null }[], viewerId: string) => {
+  return participants
+    .filter(p => p.userId !== viewerId)
+    .map(p => ({ userId: p.userId, lastReadAt: p.lastReadAt }));
+};
+
 // Get all chats for the current user
 router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user!.id;
 
-    const chatParticipants = await prisma.chatParticipant.findMany({
-      where: { userId },
+    // Chats reorder as messages arrive, so pages are offsets rather than id cursors
+    const pagination = getOffsetPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const userChats = await prisma.chat.findMany({
+      where: {
+        participants: {
+          some: { userId }
+        }
+      },
       include: {
-        chat: {
+        participants: {
           include: {
-            participants: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    username: true,
-                    fullName: true,
-                    profilePhoto: true,
-                    email: true,
-                    mobile: true,
-                    role: true,
-                    createdAt: true
-                  }
-                }
+            user: {
+              select: {
+                id: true,
+                username: true,
+                fullName: true,
+                profilePhoto: true,
+                email: true,
+                mobile: true,
+                role: true,
+                createdAt: true
               }
-            },
-            messages: {
-              take: 1,
-              orderBy: {
-                createdAt: 'desc'
-              },
-              include: {
-                sender: {
-                  select: {
-                    id: true,
-                    username: true,
-                    fullName: true,
-                    avatar: true
-                  }
-                }
+            }
+          }
+        },
+        messages: {
+          where: { hiddenAt: null },
+          take: 1,
+          orderBy: {
+            createdAt: 'desc'
+          },
+          include: {
+            sender: {
+              select: {
+                id: true,
+                username: true,
+                fullName: true,
+                avatar: true
               }
             }
           }
         }
       },
-      orderBy: {
-        chat: {
-          updatedAt: 'desc'
-        }
-      }
+      orderBy: [
+        { updatedAt: 'desc' },
+        { id: 'desc' }
+      ],
+      skip: pagination.offset,
+      take: pagination.limit + 1
     });
 
-    const chats = chatParticipants.map(cp => ({
-      ...cp.chat,
-      participants: cp.chat.participants.map(p => p.user),
-      lastMessage: cp.chat.messages[0] || null
+    const { items, nextCursor } = paginateOffsetRows(userChats, pagination.offset, pagination.limit);
+
+    const unreadCounts = await getChatUnreadCounts(
+      items.flatMap(chat => chat.participants.filter(p => p.userId === userId)),
+      userId
+    );
+
+    const chats = items.map(chat => ({
+      ...chat,
+      participants: chat.participants.map(p => p.user),
+      lastMessage: chat.messages[0] || null,
+      unreadCount: unreadCounts.get(chat.id) ?? 0,
+      readReceipts: toReadReceipts(chat.participants, userId)
     }));
 
-    res.json({ chats });
+    res.json({ chats, nextCursor });
   } catch (error) {
     console.error('Get chats error:', error);
     res.status(500).json({ error: 'Failed to fetch chats' });
@@ -191,7 +222,8 @@ router.get('/:chatId', authMiddleware, async (req: AuthenticatedRequest, res: Re
     // Transform participants to match frontend expectation
     const transformedChat = {
       ...chat,
-      participants: chat.participants.map(p => p.user)
+      participants: chat.participants.map(p => p.user),
+      readReceipts: toReadReceipts(chat.participants, userId)
     };
 
     res.json({ chat: transformedChat });
@@ -328,7 +360,7 @@ router.post('/get-or-create',
 router.get('/:chatId/messages', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { chatId } = req.params;
-    const { limit = '50', before } = req.query;
+    const { before } = req.query;
     const userId = req.user!.id;
 
     // Check if user is a participant
@@ -346,23 +378,18 @@ router.get('/:chatId/messages', authMiddleware, async (req: AuthenticatedRequest
       return;
     }
 
-    const whereClause: any = { chatId };
-
-    if (before && typeof before === 'string') {
-      const beforeMessage = await prisma.message.findUnique({
-        where: { id: before },
-        select: { createdAt: true }
-      });
-
-      if (beforeMessage) {
-        whereClause.createdAt = {
-          lt: beforeMessage.createdAt
-        };
-      }
+    // `before` (a message id) is still accepted in place of a cursor
+    const pagination = getPagination(
+      typeof before === 'string' && !req.query.cursor ? { ...req.query, cursor: encodeCursor(before) } : req.query,
+      MESSAGE_PAGE_LIMIT
+    );
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
     }
 
     const messages = await prisma.message.findMany({
-      where: whereClause,
+      where: { chatId, hiddenAt: null },
       include: {
         sender: {
           select: {
@@ -373,13 +400,17 @@ router.get('/:chatId/messages', authMiddleware, async (req: AuthenticatedRequest
           }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      },
-      take: parseInt(typeof limit === 'string' ? limit : '50')
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ messages: messages.reverse() });
+    const { items, nextCursor } = paginate(messages, pagination.limit);
+
+    // Pages go back in time; each page is returned oldest first
+    res.json({ messages: await withReactions(items.reverse(), userId), nextCursor });
   } catch (error) {
     console.error('Get messages error:', error);
     res.status(500).json({ error: 'Failed to fetch messages' });
@@ -443,6 +474,14 @@ router.post('/:chatId/messages',
         data: { updatedAt: new Date() }
       });
 
+      await syncMentions(
+        { messageId: message.id },
+        content,
+        { id: userId, name: req.user!.fullName || req.user!.username },
+        chatAudience(chatId),
+        { message: 'mentioned you in a message', linkedId: chatId, context: { chatId } }
+      );
+
       res.status(201).json({ message });
     } catch (error) {
       console.error('Send message error:', error);
@@ -451,6 +490,35 @@ router.post('/:chatId/messages',
   }
 );
 
+// Mark a chat as read, up to `messageId` or entirely
+router.post('/:chatId/read',
+  authMiddleware,
+  [
+    body('messageId').optional().isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const result = await markChatRead(req.params.chatId, req.user!.id, req.body.messageId);
+
+      if ('error' in result) {
+        res.status(result.status).json({ error: result.error });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Mark chat read error:', error);
+      res.status(500).json({ error: 'Failed to mark chat as read' });
+    }
+  }
+);
+
 // Delete a message
 router.delete('/messages/:messageId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
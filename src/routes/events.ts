@@ -1,7 +1,10 @@
 import express, { Response } from 'express';
-import { authMiddleware, isPodOwner, AuthenticatedRequest } from '../middleware/auth.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
+import { createNotifications } from './notifications.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+import { checkPodAccess, requirePodPermission } from '../utils/permissions.js';
 
 const router = express.Router();
 
@@ -10,28 +13,19 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
   try {
     const { podId } = req.params;
 
-    // Check if user is a member or owner of the pod
+    // Check if user is a member, owner or co-owner of the pod
     const pod = await prisma.pod.findUnique({
       where: { id: podId },
-      select: { ownerId: true }
+      select: { id: true }
     });
 
     if (!pod) {
       return res.status(404).json({ error: 'Pod not found' });
     }
 
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId,
-          userId: req.user!.id
-        }
-      }
-    });
+    const { hasAccess } = await checkPodAccess(podId, req.user!.id);
 
-    const isOwner = pod.ownerId === req.user!.id;
-
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view events' });
     }
 
@@ -84,6 +78,11 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
 // Get all events from user's joined pods
 router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
     // Get all pods user is a member of
     const memberships = await prisma.podMember.findMany({
       where: { userId: req.user!.id },
@@ -102,7 +101,7 @@ router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Respo
     const podIds = [...new Set([...memberPodIds, ...ownedPodIds])]; // Remove duplicates
 
     if (podIds.length === 0) {
-      return res.json({ events: [] });
+      return res.json({ events: [], nextCursor: null });
     }
 
     const events = await prisma.event.findMany({
@@ -142,18 +141,22 @@ router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Respo
           }
         }
       },
-      orderBy: {
-        date: 'asc'
-      }
+      orderBy: [
+        { date: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
     });
 
+    const { items, nextCursor } = paginate(events, pagination.limit);
+
     // Check which events the current user has joined
-    const eventsWithJoinStatus = events.map(event => ({
+    const eventsWithJoinStatus = items.map(event => ({
       ...event,
       hasJoined: event.participants.some(p => p.userId === req.user!.id)
     }));
 
-    res.json({ events: eventsWithJoinStatus });
+    res.json({ events: eventsWithJoinStatus, nextCursor });
   } catch (error) {
     console.error('Get events feed error:', error);
     res.status(500).json({ error: 'Failed to fetch events' });
@@ -207,19 +210,10 @@ router.get('/:eventId', authMiddleware, async (req: AuthenticatedRequest, res: R
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: event.podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = event.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(event.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view this event' });
     }
 
@@ -232,10 +226,10 @@ router.get('/:eventId', authMiddleware, async (req: AuthenticatedRequest, res: R
   }
 });
 
-// Create an event (pod owner only)
+// Create an event (manage_events)
 router.post('/',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_events'),
   [
     body('name').isLength({ min: 3 }).withMessage('Event name must be at least 3 characters'),
     body('title').optional().isString(),
@@ -257,19 +251,11 @@ router.post('/',
 
       const { name, title, description, type, date, time, location, helpline, imageUrl, podId } = req.body;
 
-      // Check if user owns the pod
       const pod = await prisma.pod.findUnique({
-        where: { id: podId }
+        where: { id: podId },
+        select: { name: true }
       });
 
-      if (!pod) {
-        return res.status(404).json({ error: 'Pod not found' });
-      }
-
-      if (pod.ownerId !== req.user!.id) {
-        return res.status(403).json({ error: 'You are not the owner of this pod' });
-      }
-
       const event = await prisma.event.create({
         data: {
           name: name || title,
@@ -300,6 +286,20 @@ router.post('/',
         }
       });
 
+      const members = await prisma.podMember.findMany({
+        where: { podId },
+        select: { userId: true }
+      });
+
+      await createNotifications(
+        members.map(m => m.userId).filter(userId => userId !== req.user!.id),
+        'event',
+        'New event',
+        `${pod!.name} scheduled "${event.name}" on ${event.date.toDateString()}`,
+        event.id,
+        { podId }
+      );
+
       res.status(201).json({ event });
     } catch (error) {
       console.error('Create event error:', error);
@@ -308,10 +308,10 @@ router.post('/',
   }
 );
 
-// Update an event (pod owner only)
+// Update an event (manage_events)
 router.put('/:eventId',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_events', 'event'),
   [
     body('title').optional().isLength({ min: 3 }),
     body('name').optional().isString(),
@@ -333,26 +333,6 @@ router.put('/:eventId',
       const { eventId } = req.params;
       const { name, title, description, type, date, time, location, helpline, imageUrl } = req.body;
 
-      // Check if event exists and user owns the pod
-      const event = await prisma.event.findUnique({
-        where: { id: eventId },
-        include: {
-          pod: {
-            select: {
-              ownerId: true
-            }
-          }
-        }
-      });
-
-      if (!event) {
-        return res.status(404).json({ error: 'Event not found' });
-      }
-
-      if (event.pod.ownerId !== req.user!.id) {
-        return res.status(403).json({ error: 'You are not the owner of this pod' });
-      }
-
       const updateData: any = {};
       if (name !== undefined) updateData.name = name;
       if (title !== undefined) updateData.title = title;
@@ -391,31 +371,11 @@ router.put('/:eventId',
   }
 );
 
-// Delete an event (pod owner only)
-router.delete('/:eventId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response) => {
+// Delete an event (manage_events)
+router.delete('/:eventId', authMiddleware, requirePodPermission('manage_events', 'event'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { eventId } = req.params;
 
-    // Check if event exists and user owns the pod
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      include: {
-        pod: {
-          select: {
-            ownerId: true
-          }
-        }
-      }
-    });
-
-    if (!event) {
-      return res.status(404).json({ error: 'Event not found' });
-    }
-
-    if (event.pod.ownerId !== req.user!.id) {
-      return res.status(403).json({ error: 'You are not the owner of this pod' });
-    }
-
     await prisma.event.delete({
       where: { id: eventId }
     });
@@ -454,19 +414,10 @@ router.post('/:eventId/join', authMiddleware, async (req: AuthenticatedRequest,
       return res.status(403).json({ error: 'Event creators cannot join their own events' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: event.podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = event.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(event.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to join events' });
     }
 
@@ -575,19 +526,10 @@ router.get('/:eventId/participants', authMiddleware, async (req: AuthenticatedRe
       return res.status(404).json({ error: 'Event not found' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: event.podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = event.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(event.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view participants' });
     }
 
@@ -4,6 +4,7 @@ import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
 import { userSelectMinimal } from '../utils/permissions.js';
+import { createNotification } from './notifications.js';
 
 const router = express.Router();
 
@@ -205,6 +206,14 @@ router.post('/',
         }
       });
 
+      await createNotification(
+        receiverId,
+        'message_request',
+        'New message request',
+        `${req.user!.fullName || req.user!.username} wants to message you`,
+        request.id
+      );
+
       res.status(201).json({ request });
     } catch (error) {
       console.error('Send message request error:', error);
@@ -286,6 +295,14 @@ router.post('/:requestId/accept', authMiddleware, async (req: AuthenticatedReque
       }
     });
 
+    await createNotification(
+      request.senderId,
+      'message_request',
+      'Message request accepted',
+      `${req.user!.fullName || req.user!.username} accepted your message request`,
+      chat.id
+    );
+
     res.json({ request: updatedRequest, chatId: chat.id });
   } catch (error) {
     console.error('Accept message request error:', error);
@@ -1,8 +1,12 @@
 import express, { Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
 import { userSelectMinimal } from '../utils/permissions.js';
+import { ioInstance } from '../socket.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+import { NOTIFICATION_TYPES, NotificationContext, getNotificationDeliveries } from '../utils/notificationPreferences.js';
 
 const router = express.Router();
 
@@ -10,7 +14,13 @@ const router = express.Router();
 router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user!.id;
-    const { limit = '50', unreadOnly } = req.query;
+    const { unreadOnly } = req.query;
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
 
     const whereClause: any = { userId };
 
@@ -20,19 +30,248 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
 
     const notifications = await prisma.notification.findMany({
       where: whereClause,
-      orderBy: {
-        createdAt: 'desc'
-      },
-      take: parseInt(typeof limit === 'string' ? limit : '50')
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ notifications });
+    const { items, nextCursor } = paginate(notifications, pagination.limit);
+
+    res.json({ notifications: items, nextCursor });
   } catch (error) {
     console.error('Get notifications error:', error);
     res.status(500).json({ error: 'Failed to fetch notifications' });
   }
 });
 
+// Get notification preferences and active mutes
+router.get('/preferences', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const [stored, mutes] = await Promise.all([
+      prisma.notificationPreference.findMany({
+        where: { userId }
+      }),
+      prisma.notificationMute.findMany({
+        where: {
+          userId,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+        },
+        orderBy: {
+          createdAt: 'desc'
+        }
+      })
+    ]);
+
+    // Fill in defaults for types the user never changed
+    const preferences = NOTIFICATION_TYPES.map(type => {
+      const preference = stored.find(p => p.type === type);
+      return {
+        type,
+        inApp: preference ? preference.inApp : true,
+        realtime: preference ? preference.realtime : true,
+        emailDigest: preference ? preference.emailDigest : true
+      };
+    });
+
+    res.json({ preferences, mutes });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Get email digest frequency
+router.get('/preferences/digest', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { digestFrequency: true }
+    });
+
+    res.json({ frequency: user!.digestFrequency });
+  } catch (error) {
+    console.error('Get digest preference error:', error);
+    res.status(500).json({ error: 'Failed to fetch digest preference' });
+  }
+});
+
+// Set email digest frequency (must be registered before /preferences/:type)
+router.put('/preferences/digest',
+  authMiddleware,
+  [
+    body('frequency').isIn(['DAILY', 'WEEKLY', 'OFF']).withMessage('Frequency must be DAILY, WEEKLY or OFF')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await prisma.user.update({
+        where: { id: req.user!.id },
+        data: { digestFrequency: req.body.frequency },
+        select: { digestFrequency: true }
+      });
+
+      res.json({ frequency: user.digestFrequency });
+    } catch (error) {
+      console.error('Update digest preference error:', error);
+      res.status(500).json({ error: 'Failed to update digest preference' });
+    }
+  }
+);
+
+// Update preferences for one notification type
+router.put('/preferences/:type',
+  authMiddleware,
+  [
+    body('inApp').optional().isBoolean(),
+    body('realtime').optional().isBoolean(),
+    body('emailDigest').optional().isBoolean()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { type } = req.params;
+      const { inApp, realtime, emailDigest } = req.body;
+
+      if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+        res.status(400).json({ error: `Type must be one of: ${NOTIFICATION_TYPES.join(', ')}` });
+        return;
+      }
+
+      const data = {
+        ...(inApp !== undefined && { inApp }),
+        ...(realtime !== undefined && { realtime }),
+        ...(emailDigest !== undefined && { emailDigest })
+      };
+
+      const preference = await prisma.notificationPreference.upsert({
+        where: {
+          userId_type: {
+            userId: req.user!.id,
+            type
+          }
+        },
+        update: data,
+        create: {
+          userId: req.user!.id,
+          type,
+          ...data
+        }
+      });
+
+      res.json({ preference });
+    } catch (error) {
+      console.error('Update notification preference error:', error);
+      res.status(500).json({ error: 'Failed to update notification preference' });
+    }
+  }
+);
+
+// Mute a pod, room or chat (optionally until a given time)
+router.post('/preferences/mutes',
+  authMiddleware,
+  [
+    body('targetType').isIn(['POD', 'ROOM', 'CHAT']).withMessage('Target type must be POD, ROOM or CHAT'),
+    body('targetId').notEmpty().withMessage('Target ID is required'),
+    body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Expiry must be a valid date')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { targetType, targetId, expiresAt } = req.body;
+      const userId = req.user!.id;
+
+      const target = targetType === 'POD'
+        ? await prisma.pod.findUnique({ where: { id: targetId }, select: { id: true } })
+        : targetType === 'ROOM'
+          ? await prisma.room.findUnique({ where: { id: targetId }, select: { id: true } })
+          : await prisma.chatParticipant.findUnique({ where: { chatId_userId: { chatId: targetId, userId } }, select: { id: true } });
+
+      if (!target) {
+        res.status(404).json({ error: 'Mute target not found' });
+        return;
+      }
+
+      const expiry = expiresAt ? new Date(expiresAt) : null;
+
+      if (expiry && expiry <= new Date()) {
+        res.status(400).json({ error: 'Expiry must be in the future' });
+        return;
+      }
+
+      const mute = await prisma.notificationMute.upsert({
+        where: {
+          userId_targetType_targetId: {
+            userId,
+            targetType,
+            targetId
+          }
+        },
+        update: { expiresAt: expiry },
+        create: {
+          userId,
+          targetType,
+          targetId,
+          expiresAt: expiry
+        }
+      });
+
+      res.status(201).json({ mute });
+    } catch (error) {
+      console.error('Mute notifications error:', error);
+      res.status(500).json({ error: 'Failed to mute notifications' });
+    }
+  }
+);
+
+// Unmute a pod, room or chat
+router.delete('/preferences/mutes/:targetType/:targetId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { targetType, targetId } = req.params;
+
+    if (!['POD', 'ROOM', 'CHAT'].includes(targetType)) {
+      res.status(400).json({ error: 'Target type must be POD, ROOM or CHAT' });
+      return;
+    }
+
+    const result = await prisma.notificationMute.deleteMany({
+      where: {
+        userId: req.user!.id,
+        targetType: targetType as 'POD' | 'ROOM' | 'CHAT',
+        targetId
+      }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Mute not found' });
+      return;
+    }
+
+    res.json({ message: 'Unmuted successfully' });
+  } catch (error) {
+    console.error('Unmute notifications error:', error);
+    res.status(500).json({ error: 'Failed to unmute notifications' });
+  }
+});
+
 // Get unread count
 router.get('/unread/count', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -138,25 +377,72 @@ router.delete('/:notificationId', authMiddleware, async (req: AuthenticatedReque
 });
 
 // Create a notification (internal use - can be called from other routes)
+// and push it live to the user's `user:<id>` socket channel
 export async function createNotification(
   userId: string,
   type: string,
   title: string,
   message: string,
-  linkedId?: string
+  linkedId?: string,
+  context?: NotificationContext
+): Promise<void> {
+  await createNotifications([userId], type, title, message, linkedId, context);
+}
+
+// Create the same notification for several users (e.g. every member of a pod).
+// Each user's preferences and mutes decide whether it is stored and/or pushed.
+export async function createNotifications(
+  userIds: string[],
+  type: string,
+  title: string,
+  message: string,
+  linkedId?: string,
+  context?: NotificationContext
 ): Promise<void> {
   try {
-    await prisma.notification.create({
-      data: {
+    const uniqueUserIds = [...new Set(userIds)];
+
+    if (uniqueUserIds.length === 0) {
+      return;
+    }
+
+    const deliveries = await getNotificationDeliveries(uniqueUserIds, type, context);
+    const inAppUserIds = uniqueUserIds.filter(userId => deliveries.get(userId)?.inApp);
+
+    const notifications = inAppUserIds.length > 0
+      ? await prisma.notification.createManyAndReturn({
+          data: inAppUserIds.map(userId => ({
+            userId,
+            type,
+            title,
+            message,
+            linkedId
+          }))
+        })
+      : [];
+
+    const storedByUser = new Map(notifications.map(notification => [notification.userId, notification]));
+
+    deliveries.forEach((delivery, userId) => {
+      if (!delivery.realtime) {
+        return;
+      }
+
+      // Realtime-only users get a transient payload that never shows up in their list
+      const payload = storedByUser.get(userId) ?? {
         userId,
         type,
         title,
         message,
-        linkedId
-      }
+        linkedId: linkedId ?? null,
+        isRead: false,
+        createdAt: new Date()
+      };
+
+      ioInstance?.to(`user:${userId}`).emit('new-notification', payload);
     });
   } catch (error) {
-    console.error('Create notification error:', error);
+    console.error('Create notifications error:', error);
   }
 }
 
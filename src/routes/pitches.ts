@@ -1,25 +1,29 @@
 import express, { Response } from 'express';
-import { authMiddleware, isPodOwner, AuthenticatedRequest } from '../middleware/auth.js';
+import { authMiddleware, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
-import { userSelectMinimal } from '../utils/permissions.js';
+import { userSelectMinimal, hasPodPermission, requirePodPermission } from '../utils/permissions.js';
+import { createNotification } from './notifications.js';
+import { getPagination, paginate } from '../utils/pagination.js';
 
 const router = express.Router();
 
-// Get pitches for a pod (owner/co-owners can view all, others can view their own)
+// Get pitches for a pod (review_pitches can view all, others can view their own)
 router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
     const { status } = req.query;
 
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
     const pod = await prisma.pod.findUnique({
       where: { id: podId },
-      include: {
-        coOwners: {
-          select: { id: true }
-        }
-      }
+      select: { id: true }
     });
 
     if (!pod) {
@@ -27,13 +31,12 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
       return;
     }
 
-    const isOwner = pod.ownerId === req.user!.id;
-    const isCoOwner = pod.coOwners.some(co => co.id === req.user!.id);
+    const canReview = await hasPodPermission(podId, req.user!.id, 'review_pitches');
 
     const whereClause: any = { podId };
 
-    // If not owner/co-owner, only show user's own pitches
-    if (!isOwner && !isCoOwner) {
+    // Without review_pitches, only show user's own pitches
+    if (!canReview) {
       whereClause.founderId = req.user!.id;
     }
 
@@ -77,12 +80,16 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
           }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ pitches });
+    const { items, nextCursor } = paginate(pitches, pagination.limit);
+
+    res.json({ pitches: items, nextCursor });
   } catch (error) {
     console.error('Get pod pitches error:', error);
     res.status(500).json({ error: 'Failed to fetch pitches' });
@@ -160,13 +167,7 @@ router.get('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res: R
           select: {
             id: true,
             name: true,
-            logo: true,
-            ownerId: true
-          },
-          include: {
-            coOwners: {
-              select: { id: true }
-            }
+            logo: true
           }
         },
         replies: {
@@ -194,10 +195,8 @@ router.get('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res: R
 
     // Check permissions
     const isFounder = pitch.founderId === req.user!.id;
-    const isOwner = pitch.pod.ownerId === req.user!.id;
-    const isCoOwner = pitch.pod.coOwners.some(co => co.id === req.user!.id);
 
-    if (!isFounder && !isOwner && !isCoOwner) {
+    if (!isFounder && !(await hasPodPermission(pitch.podId, req.user!.id, 'review_pitches'))) {
       res.status(403).json({ error: 'You do not have permission to view this pitch' });
       return;
     }
@@ -212,6 +211,7 @@ router.get('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res: R
 // Create a pitch
 router.post('/',
   authMiddleware,
+  requireVerifiedEmail,
   [
     body('podId').notEmpty().withMessage('Pod ID is required'),
     body('startupName').notEmpty().withMessage('Startup name is required'),
@@ -349,14 +349,7 @@ router.delete('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res
     const { pitchId } = req.params;
 
     const pitch = await prisma.pitch.findUnique({
-      where: { id: pitchId },
-      include: {
-        pod: {
-          select: {
-            ownerId: true
-          }
-        }
-      }
+      where: { id: pitchId }
     });
 
     if (!pitch) {
@@ -364,8 +357,8 @@ router.delete('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res
       return;
     }
 
-    // Only founder or pod owner can delete
-    if (pitch.founderId !== req.user!.id && pitch.pod.ownerId !== req.user!.id) {
+    // Only the founder or pitch reviewers can delete
+    if (pitch.founderId !== req.user!.id && !(await hasPodPermission(pitch.podId, req.user!.id, 'review_pitches'))) {
       res.status(403).json({ error: 'You do not have permission to delete this pitch' });
       return;
     }
@@ -381,10 +374,10 @@ router.delete('/:pitchId', authMiddleware, async (req: AuthenticatedRequest, res
   }
 });
 
-// Update pitch status (pod owner/co-owner only)
+// Update pitch status (review_pitches)
 router.patch('/:pitchId/status',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('review_pitches', 'pitch'),
   [
     body('status').notEmpty().withMessage('Status is required')
   ],
@@ -403,11 +396,7 @@ router.patch('/:pitchId/status',
         where: { id: pitchId },
         include: {
           pod: {
-            include: {
-              coOwners: {
-                select: { id: true }
-              }
-            }
+            select: { name: true }
           }
         }
       });
@@ -417,20 +406,6 @@ router.patch('/:pitchId/status',
         return;
       }
 
-      console.log('Pitch pod owner:', pitch.pod.ownerId);
-      console.log('Current user:', req.user!.id);
-      console.log('Co-owners:', pitch.pod.coOwners);
-
-      const isOwner = pitch.pod.ownerId === req.user!.id;
-      const isCoOwner = pitch.pod.coOwners.some(co => co.id === req.user!.id);
-
-      console.log('Is owner:', isOwner, 'Is co-owner:', isCoOwner);
-
-      if (!isOwner && !isCoOwner) {
-        res.status(403).json({ error: 'Only pod owners/co-owners can update pitch status' });
-        return;
-      }
-
       const updatedPitch = await prisma.pitch.update({
         where: { id: pitchId },
         data: { status },
@@ -453,6 +428,17 @@ router.patch('/:pitchId/status',
         }
       });
 
+      if (updatedPitch.status !== pitch.status) {
+        await createNotification(
+          pitch.founderId,
+          'pitch',
+          'Pitch status updated',
+          `Your pitch "${pitch.startupName}" to ${pitch.pod.name} is now ${updatedPitch.status.toLowerCase()}`,
+          pitchId,
+          { podId: pitch.podId }
+        );
+      }
+
       res.json({ pitch: updatedPitch });
     } catch (error) {
       console.error('Update pitch status error:', error);
@@ -461,10 +447,10 @@ router.patch('/:pitchId/status',
   }
 );
 
-// Add a reply to a pitch (pod owner/co-owner only)
+// Add a reply to a pitch (review_pitches)
 router.post('/:pitchId/replies',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('review_pitches', 'pitch'),
   [
     body('content').notEmpty().withMessage('Reply content is required')
   ],
@@ -480,19 +466,7 @@ router.post('/:pitchId/replies',
       const { content } = req.body;
 
       const pitch = await prisma.pitch.findUnique({
-        where: { id: pitchId },
-        include: {
-          pod: {
-            select: {
-              ownerId: true
-            },
-            include: {
-              coOwners: {
-                select: { id: true }
-              }
-            }
-          }
-        }
+        where: { id: pitchId }
       });
 
       if (!pitch) {
@@ -500,14 +474,6 @@ router.post('/:pitchId/replies',
         return;
       }
 
-      const isOwner = pitch.pod.ownerId === req.user!.id;
-      const isCoOwner = pitch.pod.coOwners.some(co => co.id === req.user!.id);
-
-      if (!isOwner && !isCoOwner) {
-        res.status(403).json({ error: 'Only pod owners/co-owners can reply to pitches' });
-        return;
-      }
-
       const reply = await prisma.pitchReply.create({
         data: {
           pitchId,
@@ -534,6 +500,15 @@ router.post('/:pitchId/replies',
         });
       }
 
+      await createNotification(
+        pitch.founderId,
+        'pitch',
+        'New reply to your pitch',
+        `${req.user!.fullName || req.user!.username} replied to your pitch "${pitch.startupName}"`,
+        pitchId,
+        { podId: pitch.podId }
+      );
+
       res.status(201).json({ reply });
     } catch (error) {
       console.error('Create reply error:', error);
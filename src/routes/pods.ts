@@ -1,12 +1,73 @@
 import express, { Response } from 'express';
-import { authMiddleware, isPodOwner, AuthenticatedRequest } from '../middleware/auth.js';
+import crypto from 'crypto';
+import { JoinRequestStatus, Prisma } from '@prisma/client';
+import { authMiddleware, isPodOwner, isPlatformAdmin, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
-import { checkPodMembership, checkPodOwnership, userSelectMinimal } from '../utils/permissions.js';
+import { checkPodAccess, requirePodPermission, userSelectMinimal, POD_PERMISSIONS, BUILT_IN_ROLE_PERMISSIONS, getPodRank, PodAccess, PodRoleName } from '../utils/permissions.js';
+import { createNotification, createNotifications } from './notifications.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+import { syncPodTags } from '../utils/tags.js';
+import { getActivePodBan, addPodMember, removePodMember, banFromPod, evictFromPodRooms, muteInPod, transferPodOwnership } from '../utils/podMembership.js';
 
 const router = express.Router();
 
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const MAX_JOIN_QUESTIONS = 10;
+
+/**
+ * Check that the acting user outranks the target user in the pod, so that e.g. a moderator
+ * cannot ban a co-owner. Returns an error message, or null when allowed.
+ */
+const getRankError = async (
+  podId: string,
+  actor: PodAccess,
+  actorId: string,
+  targetUserId: string,
+  action: string
+): Promise<string | null> => {
+  if (targetUserId === actorId) {
+    return `You cannot ${action} yourself`;
+  }
+
+  const target = await checkPodAccess(podId, targetUserId);
+
+  if (target.isOwner) {
+    return `You cannot ${action} the pod owner`;
+  }
+
+  if (target.role && getPodRank(target) >= getPodRank(actor)) {
+    return `You can only ${action} people ranked below you in this pod`;
+  }
+
+  return null;
+};
+
+/**
+ * Why an invite can no longer be used, or null if it is still valid
+ */
+const getInviteError = (invite: { revokedAt: Date | null; expiresAt: Date | null; maxUses: number | null; uses: number }): string | null => {
+  if (invite.revokedAt) {
+    return 'This invite has been revoked';
+  }
+
+  if (invite.expiresAt && invite.expiresAt <= new Date()) {
+    return 'This invite has expired';
+  }
+
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+    return 'This invite has reached its usage limit';
+  }
+
+  return null;
+};
+
+const toInviteResponse = <T extends { code: string }>(invite: T) => ({
+  ...invite,
+  url: `${CLIENT_URL}/invite/${invite.code}`
+});
+
 // Search pods by name
 router.get('/search', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -20,6 +81,7 @@ router.get('/search', authMiddleware, async (req: AuthenticatedRequest, res: Res
     const pods = await prisma.pod.findMany({
       where: {
         isPublic: true,
+        isApproved: true,
         name: {
           contains: query as string,
           mode: 'insensitive'
@@ -56,8 +118,14 @@ router.get('/search', authMiddleware, async (req: AuthenticatedRequest, res: Res
 // Get all public pods
 router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
     const pods = await prisma.pod.findMany({
-      where: { isPublic: true },
+      where: { isPublic: true, isApproved: true },
       include: {
         owner: {
           select: {
@@ -78,12 +146,16 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
           }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ pods });
+    const { items, nextCursor } = paginate(pods, pagination.limit);
+
+    res.json({ pods: items, nextCursor });
   } catch (error) {
     console.error('Get pods error:', error);
     res.status(500).json({ error: 'Failed to fetch pods' });
@@ -161,6 +233,129 @@ router.get('/owned', authMiddleware, isPodOwner, async (req: AuthenticatedReques
   }
 });
 
+// Preview an invite
+router.get('/invites/:code', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const invite = await prisma.podInvite.findUnique({
+      where: { code: req.params.code },
+      include: {
+        pod: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            avatar: true,
+            logo: true,
+            isPublic: true,
+            _count: {
+              select: {
+                members: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!invite) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    const inviteError = getInviteError(invite);
+    if (inviteError) {
+      res.status(400).json({ error: inviteError });
+      return;
+    }
+
+    const { hasAccess } = await checkPodAccess(invite.podId, req.user!.id);
+
+    res.json({ pod: invite.pod, expiresAt: invite.expiresAt, isMember: hasAccess });
+  } catch (error) {
+    console.error('Get invite error:', error);
+    res.status(500).json({ error: 'Failed to fetch invite' });
+  }
+});
+
+// Join a pod with an invite (skips the join request for private pods)
+router.post('/invites/:code/join', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const invite = await prisma.podInvite.findUnique({
+      where: { code: req.params.code },
+      include: {
+        pod: {
+          select: {
+            id: true,
+            name: true,
+            ownerId: true
+          }
+        }
+      }
+    });
+
+    if (!invite) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    const inviteError = getInviteError(invite);
+    if (inviteError) {
+      res.status(400).json({ error: inviteError });
+      return;
+    }
+
+    if ((await checkPodAccess(invite.podId, userId)).hasAccess) {
+      res.status(400).json({ error: 'Already a member of this pod' });
+      return;
+    }
+
+    if (await getActivePodBan(invite.podId, userId)) {
+      res.status(403).json({ error: 'You are banned from this pod' });
+      return;
+    }
+
+    // Claim a use atomically so concurrent joins cannot exceed maxUses
+    const now = new Date();
+    const claimed = await prisma.podInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: now } }
+        ],
+        ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } })
+      },
+      data: {
+        uses: { increment: 1 }
+      }
+    });
+
+    if (claimed.count === 0) {
+      res.status(400).json({ error: 'This invite is no longer valid' });
+      return;
+    }
+
+    const membership = await addPodMember(invite.podId, userId);
+
+    await createNotification(
+      invite.pod.ownerId,
+      'pod_join',
+      'New pod member',
+      `${req.user!.fullName || req.user!.username} joined ${invite.pod.name} with an invite`,
+      invite.podId,
+      { podId: invite.podId }
+    );
+
+    res.status(201).json({ membership });
+  } catch (error) {
+    console.error('Join with invite error:', error);
+    res.status(500).json({ error: 'Failed to join pod' });
+  }
+});
+
 // Get pod by ID
 router.get('/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -227,8 +422,34 @@ router.get('/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Res
     // Check if user is a member
     const isMember = pod.members.some(member => member.userId === req.user!.id);
     const isOwner = pod.ownerId === req.user!.id;
+    const isCoOwner = pod.coOwners.some(co => co.id === req.user!.id);
+
+    // Private pods only show their public profile to outsiders
+    if (!pod.isPublic && !isMember && !isOwner && !isCoOwner && req.user!.role !== 'PLATFORM_ADMIN') {
+      const { members, coOwners, ...podProfile } = pod;
+
+      const joinRequest = await prisma.podJoinRequest.findUnique({
+        where: {
+          podId_userId: {
+            podId,
+            userId: req.user!.id
+          }
+        },
+        select: { status: true }
+      });
+
+      res.json({
+        pod: { ...podProfile, _count: { ...pod._count, members: members.length } },
+        isMember,
+        isOwner,
+        joinRequestStatus: joinRequest?.status ?? null
+      });
+      return;
+    }
 
-    res.json({ pod, isMember, isOwner });
+    const { role, permissions } = await checkPodAccess(podId, req.user!.id);
+
+    res.json({ pod, isMember, isOwner, role, permissions });
   } catch (error) {
     console.error('Get pod error:', error);
     res.status(500).json({ error: 'Failed to fetch pod' });
@@ -239,6 +460,7 @@ router.get('/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Res
 router.post('/',
   authMiddleware,
   isPodOwner,
+  requireVerifiedEmail,
   [
     body('name').isLength({ min: 3 }).withMessage('Pod name must be at least 3 characters'),
     body('subcategory').optional().isString(),
@@ -246,7 +468,9 @@ router.post('/',
     body('organisationName').optional().isString(),
     body('organisationType').optional().isIn(['GOVERNMENT', 'PRIVATE']),
     body('description').optional().isString(),
-    body('isPublic').optional().isBoolean()
+    body('isPublic').optional().isBoolean(),
+    body('joinQuestions').optional().isArray({ max: MAX_JOIN_QUESTIONS }).withMessage(`At most ${MAX_JOIN_QUESTIONS} join questions are allowed`),
+    body('joinQuestions.*').isString().trim().isLength({ min: 1, max: 300 }).withMessage('Join questions must be 1-300 characters')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -272,7 +496,8 @@ router.post('/',
         numberOfInvestments,
         briefAboutOrganisation,
         socialLinks,
-        website
+        website,
+        joinQuestions
       } = req.body;
 
       // Map socialLinks to individual URL fields
@@ -292,6 +517,7 @@ router.post('/',
         numberOfInvestments: numberOfInvestments ? parseInt(numberOfInvestments) : null,
         briefAboutOrganisation,
         website,
+        joinQuestions: joinQuestions || [],
         ownerId: req.user!.id
       };
 
@@ -318,6 +544,8 @@ router.post('/',
         }
       });
 
+      await syncPodTags(pod.id, pod.focusAreas);
+
       res.status(201).json({ pod });
     } catch (error) {
       console.error('Create pod error:', error);
@@ -329,11 +557,14 @@ router.post('/',
 // Update pod
 router.put('/:podId',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_pod'),
   [
     body('name').optional().isLength({ min: 3 }),
     body('description').optional().isString(),
-    body('isPublic').optional().isBoolean()
+    body('focusAreas').optional().isArray(),
+    body('isPublic').optional().isBoolean(),
+    body('joinQuestions').optional().isArray({ max: MAX_JOIN_QUESTIONS }).withMessage(`At most ${MAX_JOIN_QUESTIONS} join questions are allowed`),
+    body('joinQuestions.*').isString().trim().isLength({ min: 1, max: 300 }).withMessage('Join questions must be 1-300 characters')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -344,22 +575,7 @@ router.put('/:podId',
       }
 
       const { podId } = req.params;
-      const { name, description, isPublic, avatar, coverImage } = req.body;
-
-      // Check ownership
-      const pod = await prisma.pod.findUnique({
-        where: { id: podId }
-      });
-
-      if (!pod) {
-        res.status(404).json({ error: 'Pod not found' });
-        return;
-      }
-
-      if (pod.ownerId !== req.user!.id) {
-        res.status(403).json({ error: 'You are not the owner of this pod' });
-        return;
-      }
+      const { name, description, isPublic, avatar, coverImage, focusAreas, joinQuestions } = req.body;
 
       const updatedPod = await prisma.pod.update({
         where: { id: podId },
@@ -368,7 +584,9 @@ router.put('/:podId',
           ...(description !== undefined && { description }),
           ...(isPublic !== undefined && { isPublic }),
           ...(avatar !== undefined && { avatar }),
-          ...(coverImage !== undefined && { coverImage })
+          ...(coverImage !== undefined && { coverImage }),
+          ...(focusAreas !== undefined && { focusAreas }),
+          ...(joinQuestions !== undefined && { joinQuestions })
         },
         include: {
           owner: {
@@ -382,6 +600,10 @@ router.put('/:podId',
         }
       });
 
+      if (focusAreas !== undefined) {
+        await syncPodTags(podId, updatedPod.focusAreas);
+      }
+
       res.json({ pod: updatedPod });
     } catch (error) {
       console.error('Update pod error:', error);
@@ -391,7 +613,7 @@ router.put('/:podId',
 );
 
 // Delete pod
-router.delete('/:podId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.delete('/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
 
@@ -451,6 +673,16 @@ router.post('/:podId/join', authMiddleware, async (req: AuthenticatedRequest, re
       return;
     }
 
+    if (await getActivePodBan(podId, req.user!.id)) {
+      res.status(403).json({ error: 'You are banned from this pod' });
+      return;
+    }
+
+    if (!pod.isPublic) {
+      res.status(403).json({ error: 'This pod is private. Send a join request or use an invite link' });
+      return;
+    }
+
     const membership = await prisma.podMember.create({
       data: {
         podId,
@@ -472,6 +704,15 @@ router.post('/:podId/join', authMiddleware, async (req: AuthenticatedRequest, re
       }
     });
 
+    await createNotification(
+      pod.ownerId,
+      'pod_join',
+      'New pod member',
+      `${req.user!.fullName || req.user!.username} joined ${pod.name}`,
+      podId,
+      { podId }
+    );
+
     res.status(201).json({ membership });
   } catch (error) {
     console.error('Join pod error:', error);
@@ -507,6 +748,8 @@ router.post('/:podId/leave', authMiddleware, async (req: AuthenticatedRequest, r
       }
     });
 
+    await evictFromPodRooms(podId, req.user!.id);
+
     res.json({ message: 'Left pod successfully' });
   } catch (error) {
     console.error('Leave pod error:', error);
@@ -514,101 +757,741 @@ router.post('/:podId/leave', authMiddleware, async (req: AuthenticatedRequest, r
   }
 });
 
-// Remove member (owner only)
-router.delete('/:podId/members/:userId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  try {
-    const { podId, userId } = req.params;
+// Request to join a private pod
+router.post('/:podId/join-requests',
+  authMiddleware,
+  [
+    body('answers').optional().isArray().withMessage('Answers must be an array'),
+    body('answers.*').isString().isLength({ max: 1000 }).withMessage('Answers must be at most 1000 characters')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
 
-    // Check ownership
-    const pod = await prisma.pod.findUnique({
-      where: { id: podId }
-    });
+      const { podId } = req.params;
+      const answers: string[] = (req.body.answers || []).map((answer: string) => answer.trim());
+      const userId = req.user!.id;
 
-    if (!pod) {
-      res.status(404).json({ error: 'Pod not found' });
-      return;
-    }
+      const pod = await prisma.pod.findUnique({
+        where: { id: podId },
+        include: {
+          coOwners: {
+            select: { id: true }
+          }
+        }
+      });
 
-    if (pod.ownerId !== req.user!.id) {
-      res.status(403).json({ error: 'You are not the owner of this pod' });
-      return;
-    }
+      if (!pod) {
+        res.status(404).json({ error: 'Pod not found' });
+        return;
+      }
 
-    const membership = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId,
-          userId
+      if (pod.isPublic) {
+        res.status(400).json({ error: 'This pod is public, you can join it directly' });
+        return;
+      }
+
+      if ((await checkPodAccess(podId, userId)).hasAccess) {
+        res.status(400).json({ error: 'Already a member of this pod' });
+        return;
+      }
+
+      if (await getActivePodBan(podId, userId)) {
+        res.status(403).json({ error: 'You are banned from this pod' });
+        return;
+      }
+
+      if (answers.length !== pod.joinQuestions.length || answers.some(answer => !answer)) {
+        res.status(400).json({ error: 'Please answer every question', questions: pod.joinQuestions });
+        return;
+      }
+
+      const existing = await prisma.podJoinRequest.findUnique({
+        where: {
+          podId_userId: {
+            podId,
+            userId
+          }
         }
+      });
+
+      if (existing?.status === 'PENDING') {
+        res.status(400).json({ error: 'You already have a pending request to join this pod' });
+        return;
       }
-    });
 
-    if (!membership) {
-      res.status(404).json({ error: 'User is not a member of this pod' });
-      return;
+      // A rejected request can be sent again; it goes back to the queue with the new answers
+      const joinRequest = await prisma.podJoinRequest.upsert({
+        where: {
+          podId_userId: {
+            podId,
+            userId
+          }
+        },
+        create: {
+          podId,
+          userId,
+          questions: pod.joinQuestions,
+          answers
+        },
+        update: {
+          questions: pod.joinQuestions,
+          answers,
+          status: 'PENDING',
+          reviewedById: null,
+          reviewedAt: null,
+          createdAt: new Date()
+        }
+      });
+
+      await createNotifications(
+        [pod.ownerId, ...pod.coOwners.map(co => co.id)],
+        'join_request',
+        'New join request',
+        `${req.user!.fullName || req.user!.username} asked to join ${pod.name}`,
+        podId,
+        { podId }
+      );
+
+      res.status(201).json({ joinRequest });
+    } catch (error) {
+      console.error('Create join request error:', error);
+      res.status(500).json({ error: 'Failed to send join request' });
     }
+  }
+);
 
-    await prisma.podMember.delete({
+// Withdraw your pending join request
+router.delete('/:podId/join-requests/me', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const result = await prisma.podJoinRequest.deleteMany({
       where: {
-        podId_userId: {
-          podId,
-          userId
-        }
+        podId: req.params.podId,
+        userId: req.user!.id,
+        status: 'PENDING'
       }
     });
 
-    res.json({ message: 'Member removed successfully' });
+    if (result.count === 0) {
+      res.status(404).json({ error: 'No pending join request' });
+      return;
+    }
+
+    res.json({ message: 'Join request withdrawn' });
   } catch (error) {
-    console.error('Remove member error:', error);
-    res.status(500).json({ error: 'Failed to remove member' });
+    console.error('Withdraw join request error:', error);
+    res.status(500).json({ error: 'Failed to withdraw join request' });
   }
 });
 
-// Get pods by subcategory
-router.get('/subcategory/:subcategory', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Get join requests (manage_members permission)
+router.get('/:podId/join-requests', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { subcategory } = req.params;
-    
-    const pods = await prisma.pod.findMany({
+    const { podId } = req.params;
+    const status = (req.query.status as string) || 'PENDING';
+
+    if (!['PENDING', 'APPROVED', 'REJECTED'].includes(status)) {
+      res.status(400).json({ error: 'Status must be one of: PENDING, APPROVED, REJECTED' });
+      return;
+    }
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const joinRequests = await prisma.podJoinRequest.findMany({
       where: {
-        isPublic: true,
-        isApproved: true,
-        subcategory: subcategory as any
+        podId,
+        status: status as JoinRequestStatus
       },
       include: {
-        owner: {
-          select: {
-            id: true,
-            username: true,
-            fullName: true,
-            avatar: true
-          }
+        user: {
+          select: userSelectMinimal
         },
-        _count: {
-          select: {
-            members: true,
-            posts: true
-          }
+        reviewedBy: {
+          select: userSelectMinimal
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { createdAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ pods });
+    const { items, nextCursor } = paginate(joinRequests, pagination.limit);
+
+    res.json({ joinRequests: items, nextCursor });
   } catch (error) {
-    console.error('Get pods by subcategory error:', error);
-    res.status(500).json({ error: 'Failed to fetch pods' });
+    console.error('Get join requests error:', error);
+    res.status(500).json({ error: 'Failed to fetch join requests' });
   }
 });
 
-// Get pod members
-router.get('/:podId/members', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  try {
-    const { podId } = req.params;
+// Approve or reject a join request and notify the applicant
+const reviewJoinRequest = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  status: 'APPROVED' | 'REJECTED'
+): Promise<void> => {
+  const { podId, requestId } = req.params;
+
+  const joinRequest = await prisma.podJoinRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      pod: {
+        select: { name: true }
+      }
+    }
+  });
 
-    const members = await prisma.podMember.findMany({
+  if (!joinRequest || joinRequest.podId !== podId) {
+    res.status(404).json({ error: 'Join request not found' });
+    return;
+  }
+
+  if (joinRequest.status !== 'PENDING') {
+    res.status(400).json({ error: 'This join request has already been reviewed' });
+    return;
+  }
+
+  if (status === 'APPROVED' && await getActivePodBan(podId, joinRequest.userId)) {
+    res.status(400).json({ error: 'This user is banned from the pod' });
+    return;
+  }
+
+  const updatedRequest = await prisma.podJoinRequest.update({
+    where: { id: requestId },
+    data: {
+      status,
+      reviewedById: req.user!.id,
+      reviewedAt: new Date()
+    }
+  });
+
+  if (status === 'APPROVED') {
+    await addPodMember(podId, joinRequest.userId);
+  }
+
+  await createNotification(
+    joinRequest.userId,
+    'join_request',
+    status === 'APPROVED' ? 'Join request approved' : 'Join request declined',
+    status === 'APPROVED'
+      ? `You are now a member of ${joinRequest.pod.name}`
+      : `Your request to join ${joinRequest.pod.name} was declined`,
+    podId,
+    { podId }
+  );
+
+  res.json({ joinRequest: updatedRequest });
+};
+
+// Approve join request (manage_members permission)
+router.post('/:podId/join-requests/:requestId/approve', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await reviewJoinRequest(req, res, 'APPROVED');
+  } catch (error) {
+    console.error('Approve join request error:', error);
+    res.status(500).json({ error: 'Failed to approve join request' });
+  }
+});
+
+// Reject join request (manage_members permission)
+router.post('/:podId/join-requests/:requestId/reject', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await reviewJoinRequest(req, res, 'REJECTED');
+  } catch (error) {
+    console.error('Reject join request error:', error);
+    res.status(500).json({ error: 'Failed to reject join request' });
+  }
+});
+
+// Get active invites (manage_members permission)
+router.get('/:podId/invites', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const invites = await prisma.podInvite.findMany({
+      where: {
+        podId,
+        revokedAt: null,
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } }
+        ]
+      },
+      include: {
+        createdBy: {
+          select: userSelectMinimal
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    // Used-up invites are kept until they expire or are revoked, but are no longer listed
+    const activeInvites = invites.filter(invite => !getInviteError(invite));
+
+    res.json({ invites: activeInvites.map(toInviteResponse) });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({ error: 'Failed to fetch invites' });
+  }
+});
+
+// Create an invite link (manage_members permission)
+router.post('/:podId/invites',
+  authMiddleware,
+  requirePodPermission('manage_members'),
+  [
+    body('maxUses').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Max uses must be a positive number'),
+    body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Expiry must be a valid date')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId } = req.params;
+      const { maxUses, expiresAt } = req.body;
+
+      const expiry = expiresAt ? new Date(expiresAt) : null;
+
+      if (expiry && expiry <= new Date()) {
+        res.status(400).json({ error: 'Expiry must be in the future' });
+        return;
+      }
+
+      const invite = await prisma.podInvite.create({
+        data: {
+          podId,
+          code: crypto.randomBytes(6).toString('base64url'),
+          createdById: req.user!.id,
+          maxUses: maxUses ? parseInt(maxUses, 10) : null,
+          expiresAt: expiry
+        }
+      });
+
+      res.status(201).json({ invite: toInviteResponse(invite) });
+    } catch (error) {
+      console.error('Create invite error:', error);
+      res.status(500).json({ error: 'Failed to create invite' });
+    }
+  }
+);
+
+// Revoke an invite (manage_members permission)
+router.delete('/:podId/invites/:inviteId', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, inviteId } = req.params;
+
+    const result = await prisma.podInvite.updateMany({
+      where: { id: inviteId, podId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Invite not found' });
+      return;
+    }
+
+    res.json({ message: 'Invite revoked successfully' });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+// Remove member (manage_members permission)
+router.delete('/:podId/members/:userId', authMiddleware, requirePodPermission('manage_members'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, userId } = req.params;
+
+    const rankError = await getRankError(podId, req.podAccess!, req.user!.id, userId, 'remove');
+    if (rankError) {
+      res.status(400).json({ error: rankError });
+      return;
+    }
+
+    if (!(await removePodMember(podId, userId))) {
+      res.status(404).json({ error: 'User is not a member of this pod' });
+      return;
+    }
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+// Get active bans (moderate permission)
+router.get('/:podId/bans', authMiddleware, requirePodPermission('moderate'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const bans = await prisma.podBan.findMany({
+      where: {
+        podId,
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } }
+        ]
+      },
+      include: {
+        user: {
+          select: userSelectMinimal
+        },
+        bannedBy: {
+          select: userSelectMinimal
+        }
+      },
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(bans, pagination.limit);
+
+    res.json({ bans: items, nextCursor });
+  } catch (error) {
+    console.error('Get pod bans error:', error);
+    res.status(500).json({ error: 'Failed to fetch bans' });
+  }
+});
+
+// Ban a user from the pod (moderate permission)
+router.post('/:podId/bans',
+  authMiddleware,
+  requirePodPermission('moderate'),
+  [
+    body('userId').notEmpty().withMessage('User ID is required'),
+    body('reason').optional().isString().isLength({ max: 500 }),
+    body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Expiry must be a valid date')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId } = req.params;
+      const { userId, reason, expiresAt } = req.body;
+
+      const rankError = await getRankError(podId, req.podAccess!, req.user!.id, userId, 'ban');
+      if (rankError) {
+        res.status(400).json({ error: rankError });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true }
+      });
+
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const expiry = expiresAt ? new Date(expiresAt) : null;
+
+      if (expiry && expiry <= new Date()) {
+        res.status(400).json({ error: 'Expiry must be in the future' });
+        return;
+      }
+
+      const [ban, pod] = await Promise.all([
+        banFromPod(podId, userId, req.user!.id, reason, expiry),
+        prisma.pod.findUnique({ where: { id: podId }, select: { name: true } })
+      ]);
+
+      await prisma.moderationLog.create({
+        data: {
+          moderatorId: req.user!.id,
+          action: 'BAN',
+          podId,
+          targetUserId: userId,
+          note: reason
+        }
+      });
+
+      await createNotification(
+        userId,
+        'moderation',
+        'Banned from pod',
+        expiry
+          ? `You have been banned from ${pod!.name} until ${expiry.toUTCString()}`
+          : `You have been banned from ${pod!.name}`,
+        podId,
+        { podId }
+      );
+
+      res.status(201).json({ ban });
+    } catch (error) {
+      console.error('Ban user error:', error);
+      res.status(500).json({ error: 'Failed to ban user' });
+    }
+  }
+);
+
+// Lift a ban (moderate permission)
+router.delete('/:podId/bans/:userId', authMiddleware, requirePodPermission('moderate'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, userId } = req.params;
+
+    const result = await prisma.podBan.deleteMany({
+      where: { podId, userId }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'User is not banned from this pod' });
+      return;
+    }
+
+    await prisma.moderationLog.create({
+      data: {
+        moderatorId: req.user!.id,
+        action: 'UNBAN',
+        podId,
+        targetUserId: userId
+      }
+    });
+
+    res.json({ message: 'Ban lifted successfully' });
+  } catch (error) {
+    console.error('Unban user error:', error);
+    res.status(500).json({ error: 'Failed to lift ban' });
+  }
+});
+
+// Get active mutes (moderate permission)
+router.get('/:podId/mutes', authMiddleware, requirePodPermission('moderate'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const mutes = await prisma.podMute.findMany({
+      where: {
+        podId,
+        expiresAt: { gt: new Date() }
+      },
+      include: {
+        user: {
+          select: userSelectMinimal
+        },
+        mutedBy: {
+          select: userSelectMinimal
+        }
+      },
+      orderBy: [
+        { expiresAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(mutes, pagination.limit);
+
+    res.json({ mutes: items, nextCursor });
+  } catch (error) {
+    console.error('Get pod mutes error:', error);
+    res.status(500).json({ error: 'Failed to fetch mutes' });
+  }
+});
+
+// Mute a member until a given time (moderate permission)
+router.post('/:podId/mutes',
+  authMiddleware,
+  requirePodPermission('moderate'),
+  [
+    body('userId').notEmpty().withMessage('User ID is required'),
+    body('reason').optional().isString().isLength({ max: 500 }),
+    body('expiresAt').isISO8601().withMessage('Expiry must be a valid date')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId } = req.params;
+      const { userId, reason, expiresAt } = req.body;
+
+      const rankError = await getRankError(podId, req.podAccess!, req.user!.id, userId, 'mute');
+      if (rankError) {
+        res.status(400).json({ error: rankError });
+        return;
+      }
+
+      if (!(await checkPodAccess(podId, userId)).hasAccess) {
+        res.status(404).json({ error: 'User is not a member of this pod' });
+        return;
+      }
+
+      const expiry = new Date(expiresAt);
+
+      if (expiry <= new Date()) {
+        res.status(400).json({ error: 'Expiry must be in the future' });
+        return;
+      }
+
+      const [mute, pod] = await Promise.all([
+        muteInPod(podId, userId, req.user!.id, expiry, reason),
+        prisma.pod.findUnique({ where: { id: podId }, select: { name: true } })
+      ]);
+
+      await prisma.moderationLog.create({
+        data: {
+          moderatorId: req.user!.id,
+          action: 'MUTE',
+          podId,
+          targetUserId: userId,
+          note: reason
+        }
+      });
+
+      await createNotification(
+        userId,
+        'moderation',
+        'Muted in pod',
+        `You have been muted in ${pod!.name} until ${expiry.toUTCString()}. You can still read, but not post.`,
+        podId,
+        { podId }
+      );
+
+      res.status(201).json({ mute });
+    } catch (error) {
+      console.error('Mute member error:', error);
+      res.status(500).json({ error: 'Failed to mute member' });
+    }
+  }
+);
+
+// Unmute a member (moderate permission)
+router.delete('/:podId/mutes/:userId', authMiddleware, requirePodPermission('moderate'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, userId } = req.params;
+
+    const result = await prisma.podMute.deleteMany({
+      where: { podId, userId }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'User is not muted in this pod' });
+      return;
+    }
+
+    await prisma.moderationLog.create({
+      data: {
+        moderatorId: req.user!.id,
+        action: 'UNMUTE',
+        podId,
+        targetUserId: userId
+      }
+    });
+
+    res.json({ message: 'Member unmuted successfully' });
+  } catch (error) {
+    console.error('Unmute member error:', error);
+    res.status(500).json({ error: 'Failed to unmute member' });
+  }
+});
+
+// Get pods by subcategory
+router.get('/subcategory/:subcategory', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { subcategory } = req.params;
+    
+    const pods = await prisma.pod.findMany({
+      where: {
+        isPublic: true,
+        isApproved: true,
+        subcategory: subcategory as any
+      },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            avatar: true
+          }
+        },
+        _count: {
+          select: {
+            members: true,
+            posts: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    res.json({ pods });
+  } catch (error) {
+    console.error('Get pods by subcategory error:', error);
+    res.status(500).json({ error: 'Failed to fetch pods' });
+  }
+});
+
+// Get pod members
+router.get('/:podId/members', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const pod = await prisma.pod.findUnique({
+      where: { id: podId },
+      select: { isPublic: true }
+    });
+
+    if (!pod) {
+      res.status(404).json({ error: 'Pod not found' });
+      return;
+    }
+
+    if (!pod.isPublic && !(await checkPodAccess(podId, req.user!.id)).hasAccess && req.user!.role !== 'PLATFORM_ADMIN') {
+      res.status(403).json({ error: 'You must be a member of this pod to view its members' });
+      return;
+    }
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const members = await prisma.podMember.findMany({
       where: { podId },
       include: {
         user: {
@@ -622,23 +1505,263 @@ router.get('/:podId/members', authMiddleware, async (req: AuthenticatedRequest,
             role: true,
             createdAt: true
           }
+        },
+        customRole: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: [
+        { joinedAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(members, pagination.limit);
+
+    const memberUsers = items.map(m => ({ ...m.user, podRole: m.role, customRole: m.customRole }));
+    res.json({ members: memberUsers, nextCursor });
+  } catch (error) {
+    console.error('Get pod members error:', error);
+    res.status(500).json({ error: 'Failed to fetch members' });
+  }
+});
+
+const roleValidators = [
+  body('name').optional().isString().trim().isLength({ min: 1, max: 50 }).withMessage('Role name must be 1-50 characters'),
+  body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+  body('permissions.*')
+    .isIn(POD_PERMISSIONS.filter(permission => permission !== 'manage_roles'))
+    .withMessage(`Permissions must be one of: ${POD_PERMISSIONS.filter(permission => permission !== 'manage_roles').join(', ')}`)
+];
+
+// Get the built-in and custom roles of a pod
+router.get('/:podId/roles', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    if (!(await checkPodAccess(podId, req.user!.id)).hasAccess) {
+      res.status(403).json({ error: 'You must be a member of this pod to view its roles' });
+      return;
+    }
+
+    const customRoles = await prisma.podRole.findMany({
+      where: { podId },
+      include: {
+        _count: {
+          select: { members: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    const builtInRoles = (Object.keys(BUILT_IN_ROLE_PERMISSIONS) as PodRoleName[]).map(name => ({
+      name,
+      permissions: BUILT_IN_ROLE_PERMISSIONS[name]
+    }));
+
+    res.json({ builtInRoles, customRoles });
+  } catch (error) {
+    console.error('Get pod roles error:', error);
+    res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+// Create a custom role (manage_roles permission)
+router.post('/:podId/roles',
+  authMiddleware,
+  requirePodPermission('manage_roles'),
+  [
+    body('name').exists().withMessage('Role name is required'),
+    body('permissions').exists().withMessage('Permissions are required'),
+    ...roleValidators
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId } = req.params;
+      const { name, permissions } = req.body;
+
+      const existing = await prisma.podRole.findUnique({
+        where: { podId_name: { podId, name } }
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'A role with this name already exists in this pod' });
+        return;
+      }
+
+      const role = await prisma.podRole.create({
+        data: {
+          podId,
+          name,
+          permissions: [...new Set<string>(permissions)]
+        }
+      });
+
+      res.status(201).json({ role });
+    } catch (error) {
+      console.error('Create pod role error:', error);
+      res.status(500).json({ error: 'Failed to create role' });
+    }
+  }
+);
+
+// Update a custom role (manage_roles permission)
+router.put('/:podId/roles/:roleId',
+  authMiddleware,
+  requirePodPermission('manage_roles'),
+  roleValidators,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId, roleId } = req.params;
+      const { name, permissions } = req.body;
+
+      const role = await prisma.podRole.findUnique({
+        where: { id: roleId }
+      });
+
+      if (!role || role.podId !== podId) {
+        res.status(404).json({ error: 'Role not found' });
+        return;
+      }
+
+      if (name && name !== role.name) {
+        const existing = await prisma.podRole.findUnique({
+          where: { podId_name: { podId, name } }
+        });
+
+        if (existing) {
+          res.status(400).json({ error: 'A role with this name already exists in this pod' });
+          return;
+        }
+      }
+
+      const updatedRole = await prisma.podRole.update({
+        where: { id: roleId },
+        data: {
+          ...(name && { name }),
+          ...(permissions !== undefined && { permissions: [...new Set<string>(permissions)] })
+        }
+      });
+
+      res.json({ role: updatedRole });
+    } catch (error) {
+      console.error('Update pod role error:', error);
+      res.status(500).json({ error: 'Failed to update role' });
+    }
+  }
+);
+
+// Delete a custom role; its members keep their built-in role (manage_roles permission)
+router.delete('/:podId/roles/:roleId', authMiddleware, requirePodPermission('manage_roles'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, roleId } = req.params;
+
+    const result = await prisma.podRole.deleteMany({
+      where: { id: roleId, podId }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'Role not found' });
+      return;
+    }
+
+    res.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Delete pod role error:', error);
+    res.status(500).json({ error: 'Failed to delete role' });
+  }
+});
+
+// Set a member's role (manage_roles permission)
+router.put('/:podId/members/:userId/role',
+  authMiddleware,
+  requirePodPermission('manage_roles'),
+  [
+    body('role').optional().isIn(['MEMBER', 'MODERATOR']).withMessage('Role must be MEMBER or MODERATOR'),
+    body('customRoleId').optional({ values: 'null' }).isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId, userId } = req.params;
+      const { role, customRoleId } = req.body;
+
+      if (role === undefined && customRoleId === undefined) {
+        res.status(400).json({ error: 'Role or custom role is required' });
+        return;
+      }
+
+      const rankError = await getRankError(podId, req.podAccess!, req.user!.id, userId, 'change the role of');
+      if (rankError) {
+        res.status(400).json({ error: rankError });
+        return;
+      }
+
+      const membership = await prisma.podMember.findUnique({
+        where: { podId_userId: { podId, userId } }
+      });
+
+      if (!membership) {
+        res.status(404).json({ error: 'User is not a member of this pod' });
+        return;
+      }
+
+      if (customRoleId) {
+        const customRole = await prisma.podRole.findUnique({
+          where: { id: customRoleId },
+          select: { podId: true }
+        });
+
+        if (!customRole || customRole.podId !== podId) {
+          res.status(404).json({ error: 'Role not found' });
+          return;
         }
-      },
-      orderBy: {
-        joinedAt: 'asc'
       }
-    });
 
-    const memberUsers = members.map(m => m.user);
-    res.json({ members: memberUsers });
-  } catch (error) {
-    console.error('Get pod members error:', error);
-    res.status(500).json({ error: 'Failed to fetch members' });
+      const updatedMembership = await prisma.podMember.update({
+        where: { id: membership.id },
+        data: {
+          ...(role !== undefined && { role }),
+          ...(customRoleId !== undefined && { customRoleId })
+        },
+        include: {
+          user: {
+            select: userSelectMinimal
+          },
+          customRole: {
+            select: { id: true, name: true, permissions: true }
+          }
+        }
+      });
+
+      res.json({ member: updatedMembership });
+    } catch (error) {
+      console.error('Set member role error:', error);
+      res.status(500).json({ error: 'Failed to update member role' });
+    }
   }
-});
+);
 
 // Add co-owner (owner only)
-router.post('/:podId/co-owners', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/:podId/co-owners', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
     const { username } = req.body;
@@ -710,7 +1833,7 @@ router.post('/:podId/co-owners', authMiddleware, isPodOwner, async (req: Authent
 });
 
 // Remove co-owner (owner only)
-router.delete('/:podId/co-owners/:userId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.delete('/:podId/co-owners/:userId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId, userId } = req.params;
 
@@ -746,29 +1869,269 @@ router.delete('/:podId/co-owners/:userId', authMiddleware, isPodOwner, async (re
   }
 });
 
-// Upload pod logo (placeholder)
-router.post('/:podId/logo', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Get the pending ownership transfer of a pod (owner or nominee)
+router.get('/:podId/transfer', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
-    const { logoUrl } = req.body;
 
-    if (!logoUrl) {
-      res.status(400).json({ error: 'Logo URL is required' });
+    const transfer = await prisma.podOwnershipTransfer.findFirst({
+      where: { podId, status: 'PENDING' },
+      include: {
+        fromUser: {
+          select: userSelectMinimal
+        },
+        toUser: {
+          select: userSelectMinimal
+        }
+      }
+    });
+
+    if (transfer && transfer.fromUserId !== req.user!.id && transfer.toUserId !== req.user!.id) {
+      res.json({ transfer: null });
       return;
     }
 
-    // Check ownership
-    const pod = await prisma.pod.findUnique({
-      where: { id: podId }
+    res.json({ transfer });
+  } catch (error) {
+    console.error('Get ownership transfer error:', error);
+    res.status(500).json({ error: 'Failed to fetch ownership transfer' });
+  }
+});
+
+// Nominate a co-owner or member as the new owner (owner only)
+router.post('/:podId/transfer',
+  authMiddleware,
+  [
+    body('userId').notEmpty().withMessage('User ID is required'),
+    body('formerOwnerRole').optional().isIn(['CO_OWNER', 'MEMBER', 'NONE']).withMessage('Former owner role must be CO_OWNER, MEMBER or NONE')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { podId } = req.params;
+      const { userId, formerOwnerRole } = req.body;
+
+      const pod = await prisma.pod.findUnique({
+        where: { id: podId },
+        select: { name: true, ownerId: true }
+      });
+
+      if (!pod) {
+        res.status(404).json({ error: 'Pod not found' });
+        return;
+      }
+
+      if (pod.ownerId !== req.user!.id) {
+        res.status(403).json({ error: 'You are not the owner of this pod' });
+        return;
+      }
+
+      if (userId === req.user!.id) {
+        res.status(400).json({ error: 'You already own this pod' });
+        return;
+      }
+
+      if (!(await checkPodAccess(podId, userId)).hasAccess) {
+        res.status(400).json({ error: 'Ownership can only be transferred to a co-owner or member of this pod' });
+        return;
+      }
+
+      const pending = await prisma.podOwnershipTransfer.findFirst({
+        where: { podId, status: 'PENDING' },
+        select: { id: true }
+      });
+
+      if (pending) {
+        res.status(400).json({ error: 'There is already a pending ownership transfer for this pod' });
+        return;
+      }
+
+      const transfer = await prisma.podOwnershipTransfer.create({
+        data: {
+          podId,
+          fromUserId: req.user!.id,
+          toUserId: userId,
+          ...(formerOwnerRole && { formerOwnerRole })
+        },
+        include: {
+          toUser: {
+            select: userSelectMinimal
+          }
+        }
+      });
+
+      await createNotification(
+        userId,
+        'pod_transfer',
+        'Pod ownership offered',
+        `${req.user!.fullName || req.user!.username} wants to make you the owner of ${pod.name}`,
+        podId,
+        { podId }
+      );
+
+      res.status(201).json({ transfer });
+    } catch (error) {
+      console.error('Create ownership transfer error:', error);
+      res.status(500).json({ error: 'Failed to start ownership transfer' });
+    }
+  }
+);
+
+// Cancel the pending ownership transfer (owner only)
+router.delete('/:podId/transfer', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const transfer = await prisma.podOwnershipTransfer.findFirst({
+      where: { podId, fromUserId: req.user!.id, status: 'PENDING' },
+      include: {
+        pod: {
+          select: { name: true }
+        }
+      }
     });
 
-    if (!pod) {
-      res.status(404).json({ error: 'Pod not found' });
+    if (!transfer) {
+      res.status(404).json({ error: 'No pending ownership transfer found' });
       return;
     }
 
-    if (pod.ownerId !== req.user!.id) {
-      res.status(403).json({ error: 'You are not the owner of this pod' });
+    await prisma.podOwnershipTransfer.update({
+      where: { id: transfer.id },
+      data: { status: 'CANCELLED', respondedAt: new Date() }
+    });
+
+    await createNotification(
+      transfer.toUserId,
+      'pod_transfer',
+      'Pod ownership offer withdrawn',
+      `The offer to become the owner of ${transfer.pod.name} was withdrawn`,
+      podId,
+      { podId }
+    );
+
+    res.json({ message: 'Ownership transfer cancelled' });
+  } catch (error) {
+    console.error('Cancel ownership transfer error:', error);
+    res.status(500).json({ error: 'Failed to cancel ownership transfer' });
+  }
+});
+
+// Accept or decline the pending ownership transfer and notify the owner
+const respondToTransfer = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  accept: boolean
+): Promise<void> => {
+  const { podId } = req.params;
+
+  const transfer = await prisma.podOwnershipTransfer.findFirst({
+    where: { podId, toUserId: req.user!.id, status: 'PENDING' },
+    include: {
+      pod: {
+        select: { name: true, ownerId: true }
+      }
+    }
+  });
+
+  if (!transfer) {
+    res.status(404).json({ error: 'No pending ownership transfer found' });
+    return;
+  }
+
+  if (accept) {
+    // The pod may have changed hands, or the nominee left, since the nomination
+    if (transfer.pod.ownerId !== transfer.fromUserId || !(await checkPodAccess(podId, req.user!.id)).hasAccess) {
+      await prisma.podOwnershipTransfer.update({
+        where: { id: transfer.id },
+        data: { status: 'CANCELLED', respondedAt: new Date() }
+      });
+      res.status(400).json({ error: 'This ownership transfer is no longer valid' });
+      return;
+    }
+
+    try {
+      await transferPodOwnership(transfer);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        res.status(409).json({ error: 'This ownership transfer is no longer pending' });
+        return;
+      }
+      throw error;
+    }
+  } else {
+    await prisma.podOwnershipTransfer.update({
+      where: { id: transfer.id },
+      data: { status: 'DECLINED', respondedAt: new Date() }
+    });
+  }
+
+  const name = req.user!.fullName || req.user!.username;
+
+  await createNotification(
+    transfer.fromUserId,
+    'pod_transfer',
+    accept ? 'Pod ownership transferred' : 'Pod ownership declined',
+    accept
+      ? `${name} is now the owner of ${transfer.pod.name}`
+      : `${name} declined to become the owner of ${transfer.pod.name}`,
+    podId,
+    { podId }
+  );
+
+  if (!accept) {
+    res.json({ message: 'Ownership transfer declined' });
+    return;
+  }
+
+  const pod = await prisma.pod.findUnique({
+    where: { id: podId },
+    include: {
+      owner: {
+        select: userSelectMinimal
+      },
+      coOwners: {
+        select: userSelectMinimal
+      }
+    }
+  });
+
+  res.json({ pod });
+};
+
+// Accept ownership of a pod (nominee only)
+router.post('/:podId/transfer/accept', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await respondToTransfer(req, res, true);
+  } catch (error) {
+    console.error('Accept ownership transfer error:', error);
+    res.status(500).json({ error: 'Failed to accept ownership transfer' });
+  }
+});
+
+// Decline ownership of a pod (nominee only)
+router.post('/:podId/transfer/decline', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await respondToTransfer(req, res, false);
+  } catch (error) {
+    console.error('Decline ownership transfer error:', error);
+    res.status(500).json({ error: 'Failed to decline ownership transfer' });
+  }
+});
+
+// Upload pod logo (placeholder)
+router.post('/:podId/logo', authMiddleware, requirePodPermission('manage_pod'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+    const { logoUrl } = req.body;
+
+    if (!logoUrl) {
+      res.status(400).json({ error: 'Logo URL is required' });
       return;
     }
 
@@ -787,12 +2150,14 @@ router.post('/:podId/logo', authMiddleware, isPodOwner, async (req: Authenticate
   }
 });
 
-// Get pending approval pods (admin only - placeholder)
-router.get('/admin/pending', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Get pods awaiting review (platform admin only)
+router.get('/admin/pending', authMiddleware, isPlatformAdmin, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const { status } = req.query;
+
     const pods = await prisma.pod.findMany({
       where: {
-        isApproved: false
+        approvalStatus: status === 'CHANGES_REQUESTED' || status === 'REJECTED' ? status : 'PENDING'
       },
       include: {
         owner: {
@@ -812,7 +2177,7 @@ router.get('/admin/pending', authMiddleware, isPodOwner, async (req: Authenticat
         }
       },
       orderBy: {
-        createdAt: 'desc'
+        updatedAt: 'asc'
       }
     });
 
@@ -823,22 +2188,207 @@ router.get('/admin/pending', authMiddleware, isPodOwner, async (req: Authenticat
   }
 });
 
-// Approve pod (admin only - placeholder)
-router.post('/:podId/approve', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Record a review decision on a pod and notify its owner
+const reviewPod = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  status: 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED'
+): Promise<void> => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+
+  const { podId } = req.params;
+  const note: string | undefined = req.body.note;
+
+  const pod = await prisma.pod.findUnique({
+    where: { id: podId }
+  });
+
+  if (!pod) {
+    res.status(404).json({ error: 'Pod not found' });
+    return;
+  }
+
+  if (pod.approvalStatus === status) {
+    res.status(400).json({ error: `Pod is already ${status.toLowerCase().replace('_', ' ')}` });
+    return;
+  }
+
+  const [updatedPod, review] = await prisma.$transaction([
+    prisma.pod.update({
+      where: { id: podId },
+      data: {
+        approvalStatus: status,
+        isApproved: status === 'APPROVED',
+        reviewNote: note ?? null,
+        reviewedAt: new Date()
+      }
+    }),
+    prisma.podReview.create({
+      data: {
+        podId,
+        reviewerId: req.user!.id,
+        status,
+        note
+      }
+    })
+  ]);
+
+  const titles = {
+    APPROVED: 'Pod approved',
+    REJECTED: 'Pod rejected',
+    CHANGES_REQUESTED: 'Changes requested for your pod'
+  };
+  const messages = {
+    APPROVED: `Your pod "${pod.name}" has been approved and is now listed`,
+    REJECTED: `Your pod "${pod.name}" was not approved`,
+    CHANGES_REQUESTED: `Your pod "${pod.name}" needs changes before it can be approved`
+  };
+
+  await createNotification(
+    pod.ownerId,
+    'pod_review',
+    titles[status],
+    note ? `${messages[status]}: ${note}` : messages[status],
+    podId
+  );
+
+  res.json({ pod: updatedPod, review });
+};
+
+// Approve pod (platform admin only)
+router.post('/:podId/approve',
+  authMiddleware,
+  isPlatformAdmin,
+  [
+    body('note').optional().isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await reviewPod(req, res, 'APPROVED');
+    } catch (error) {
+      console.error('Approve pod error:', error);
+      res.status(500).json({ error: 'Failed to approve pod' });
+    }
+  }
+);
+
+// Reject pod (platform admin only)
+router.post('/:podId/reject',
+  authMiddleware,
+  isPlatformAdmin,
+  [
+    body('note').notEmpty().withMessage('A note explaining the rejection is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await reviewPod(req, res, 'REJECTED');
+    } catch (error) {
+      console.error('Reject pod error:', error);
+      res.status(500).json({ error: 'Failed to reject pod' });
+    }
+  }
+);
+
+// Request changes to a pod (platform admin only)
+router.post('/:podId/request-changes',
+  authMiddleware,
+  isPlatformAdmin,
+  [
+    body('note').notEmpty().withMessage('A note describing the requested changes is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await reviewPod(req, res, 'CHANGES_REQUESTED');
+    } catch (error) {
+      console.error('Request pod changes error:', error);
+      res.status(500).json({ error: 'Failed to request changes' });
+    }
+  }
+);
+
+// Resubmit a pod for review after changes were requested or it was rejected (owner only)
+router.post('/:podId/resubmit', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
 
+    const pod = await prisma.pod.findUnique({
+      where: { id: podId }
+    });
+
+    if (!pod) {
+      res.status(404).json({ error: 'Pod not found' });
+      return;
+    }
+
+    if (pod.ownerId !== req.user!.id) {
+      res.status(403).json({ error: 'You are not the owner of this pod' });
+      return;
+    }
+
+    if (pod.approvalStatus !== 'CHANGES_REQUESTED' && pod.approvalStatus !== 'REJECTED') {
+      res.status(400).json({ error: 'Only pods with requested changes or rejected pods can be resubmitted' });
+      return;
+    }
+
     const updatedPod = await prisma.pod.update({
       where: { id: podId },
       data: {
-        isApproved: true
+        approvalStatus: 'PENDING'
       }
     });
 
     res.json({ pod: updatedPod });
   } catch (error) {
-    console.error('Approve pod error:', error);
-    res.status(500).json({ error: 'Failed to approve pod' });
+    console.error('Resubmit pod error:', error);
+    res.status(500).json({ error: 'Failed to resubmit pod' });
+  }
+});
+
+// Get review history of a pod (owner or platform admin)
+router.get('/:podId/reviews', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.params;
+
+    const pod = await prisma.pod.findUnique({
+      where: { id: podId },
+      select: { ownerId: true, approvalStatus: true, reviewNote: true, reviewedAt: true }
+    });
+
+    if (!pod) {
+      res.status(404).json({ error: 'Pod not found' });
+      return;
+    }
+
+    if (pod.ownerId !== req.user!.id && req.user!.role !== 'PLATFORM_ADMIN') {
+      res.status(403).json({ error: 'You do not have permission to view this pod\'s reviews' });
+      return;
+    }
+
+    const reviews = await prisma.podReview.findMany({
+      where: { podId },
+      include: {
+        reviewer: {
+          select: userSelectMinimal
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    res.json({
+      approvalStatus: pod.approvalStatus,
+      reviewNote: pod.reviewNote,
+      reviewedAt: pod.reviewedAt,
+      reviews
+    });
+  } catch (error) {
+    console.error('Get pod reviews error:', error);
+    res.status(500).json({ error: 'Failed to fetch pod reviews' });
   }
 });
 
@@ -0,0 +1,185 @@
+import express, { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { body, validationResult } from 'express-validator';
+import prisma from '../utils/prisma.js';
+import { checkPodAccess } from '../utils/permissions.js';
+import { getPollResults, isPollClosed } from '../utils/polls.js';
+import { ioInstance } from '../socket.js';
+
+// Mounted at /api/posts/:postId/poll
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Load the poll of a post, checking that the user can see the post
+ */
+const loadPoll = async (req: AuthenticatedRequest, res: Response) => {
+  const { postId } = req.params;
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: {
+      podId: true,
+      status: true,
+      hiddenAt: true,
+      poll: true
+    }
+  });
+
+  if (!post || post.status !== 'PUBLISHED' || post.hiddenAt || !post.poll) {
+    res.status(404).json({ error: 'Poll not found' });
+    return null;
+  }
+
+  const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
+  if (!hasAccess) {
+    res.status(403).json({ error: 'You must be a member of this pod to view this poll' });
+    return null;
+  }
+
+  return post.poll;
+};
+
+// Attempts at replacing a vote before giving up on concurrent votes by the same user
+const VOTE_ATTEMPTS = 3;
+
+/**
+ * Replace a user's votes in a poll. The transaction is serializable so that two
+ * concurrent votes cannot both land and leave two choices on a single-choice poll;
+ * the losing vote is retried against the winner's state.
+ */
+const replaceVotes = async (pollId: string, userId: string, optionIds: string[]): Promise<void> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await prisma.$transaction([
+        prisma.pollVote.deleteMany({
+          where: { pollId, userId }
+        }),
+        prisma.pollVote.createMany({
+          data: optionIds.map(optionId => ({ pollId, optionId, userId }))
+        })
+      ], { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      return;
+    } catch (error) {
+      const isConflict = error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === 'P2034' || error.code === 'P2002');
+
+      if (!isConflict || attempt >= VOTE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Push fresh results to everyone watching the post
+ */
+const broadcastResults = async (postId: string, pollId: string) => {
+  const results = await getPollResults(pollId);
+  ioInstance?.to(`post:${postId}`).emit('poll-updated', { postId, poll: results });
+};
+
+// Get poll results
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const poll = await loadPoll(req, res);
+    if (!poll) {
+      return;
+    }
+
+    const results = await getPollResults(poll.id, req.user!.id);
+
+    res.json({ poll: results });
+  } catch (error) {
+    console.error('Get poll error:', error);
+    res.status(500).json({ error: 'Failed to fetch poll' });
+  }
+});
+
+// Vote in a poll (replaces the user's previous votes)
+router.post('/vote',
+  authMiddleware,
+  [
+    body('optionIds').isArray({ min: 1 }).withMessage('At least one option is required'),
+    body('optionIds.*').isString().withMessage('Option IDs must be strings')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const poll = await loadPoll(req, res);
+      if (!poll) {
+        return;
+      }
+
+      if (isPollClosed(poll)) {
+        res.status(400).json({ error: 'This poll is closed' });
+        return;
+      }
+
+      const optionIds: string[] = [...new Set<string>(req.body.optionIds)];
+
+      if (!poll.allowMultiple && optionIds.length > 1) {
+        res.status(400).json({ error: 'This poll only allows one choice' });
+        return;
+      }
+
+      const validOptions = await prisma.pollOption.count({
+        where: { id: { in: optionIds }, pollId: poll.id }
+      });
+
+      if (validOptions !== optionIds.length) {
+        res.status(400).json({ error: 'Invalid poll option' });
+        return;
+      }
+
+      await replaceVotes(poll.id, req.user!.id, optionIds);
+
+      const results = await getPollResults(poll.id, req.user!.id);
+      await broadcastResults(poll.postId, poll.id);
+
+      res.json({ poll: results });
+    } catch (error) {
+      console.error('Vote in poll error:', error);
+      res.status(500).json({ error: 'Failed to vote' });
+    }
+  }
+);
+
+// Remove the user's votes from a poll
+router.delete('/vote', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const poll = await loadPoll(req, res);
+    if (!poll) {
+      return;
+    }
+
+    if (isPollClosed(poll)) {
+      res.status(400).json({ error: 'This poll is closed' });
+      return;
+    }
+
+    const result = await prisma.pollVote.deleteMany({
+      where: { pollId: poll.id, userId: req.user!.id }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'You have not voted in this poll' });
+      return;
+    }
+
+    const results = await getPollResults(poll.id, req.user!.id);
+    await broadcastResults(poll.postId, poll.id);
+
+    res.json({ poll: results });
+  } catch (error) {
+    console.error('Remove poll vote error:', error);
+    res.status(500).json({ error: 'Failed to remove vote' });
+  }
+});
+
+export default router;
@@ -1,28 +1,92 @@
 import express, { Response } from 'express';
-import { authMiddleware, isPodOwner, AuthenticatedRequest } from '../middleware/auth.js';
+import { Prisma } from '@prisma/client';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
-import { checkPodMembership, checkPodOwnership } from '../utils/permissions.js';
+import { checkPodOwnership, checkPodAccess, hasPodPermission, requirePodPermission } from '../utils/permissions.js';
+import { getActivePodMute } from '../utils/podMembership.js';
+import { createNotification, createNotifications } from './notifications.js';
+import { getPagination, paginate, getOffsetPagination, paginateOffset } from '../utils/pagination.js';
+import { refreshPostCounters } from '../utils/postCounters.js';
+import { getPodAffinity, rankPosts, RANKED_WINDOW_DAYS, RANKED_CANDIDATE_LIMIT } from '../utils/feedRanking.js';
+import { syncMentions, podAudience } from '../utils/mentions.js';
+import { canManageUnpublishedPost, runPostPublishEffects, publishPost } from '../utils/postPublishing.js';
+import { parsePollInput, getPollSummaryInclude, toPollSummary } from '../utils/polls.js';
 
 const router = express.Router();
 
+const FEED_SORTS = ['latest', 'top', 'ranked'];
+// How many posts a pod can have pinned at once
+const MAX_PINNED_POSTS = parseInt(process.env.MAX_PINNED_POSTS || '3', 10);
+
+// Top-level comments have depth 0; replies can be nested this many levels below them
+const MAX_COMMENT_DEPTH = 3;
+
+const getCommentInclude = (viewerId: string) => ({
+  author: {
+    select: {
+      id: true,
+      username: true,
+      fullName: true,
+      email: true,
+      mobile: true,
+      profilePhoto: true,
+      role: true,
+      createdAt: true
+    }
+  },
+  // Only the viewer's own reaction; totals come from _count
+  reactions: {
+    where: { userId: viewerId },
+    select: { type: true }
+  },
+  _count: {
+    select: {
+      replies: { where: { hiddenAt: null } },
+      reactions: true
+    }
+  }
+}) satisfies Prisma.CommentInclude;
+
+// Comments that are not hidden and do not reply to a hidden comment
+const visibleCommentWhere = {
+  hiddenAt: null,
+  OR: [
+    { parentId: null },
+    { parent: { hiddenAt: null } }
+  ]
+} satisfies Prisma.CommentWhereInput;
+
+const toCommentResponse = <T extends { reactions: { type: string }[]; editedAt: Date | null }>({ reactions, ...comment }: T) => ({
+  ...comment,
+  isEdited: comment.editedAt !== null,
+  viewerReaction: reactions[0]?.type ?? null
+});
+
 // Get posts from a specific pod (owner updates, member updates, or all)
 router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { podId } = req.params;
     const { type } = req.query; // 'owner', 'member', or 'all'
 
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
     // Check if user is a member of the pod
-    const isMember = await checkPodMembership(podId, req.user!.id);
-    const isOwner = await checkPodOwnership(podId, req.user!.id);
+    const { hasAccess } = await checkPodAccess(podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       res.status(403).json({ error: 'You must be a member of this pod to view posts' });
       return;
     }
 
     const whereClause: any = {
-      podId
+      podId,
+      status: 'PUBLISHED',
+      hiddenAt: null
     };
 
     // Filter by post type if specified
@@ -32,49 +96,75 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
       whereClause.type = 'MEMBER_UPDATE';
     }
 
-    const posts = await prisma.post.findMany({
-      where: whereClause,
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            fullName: true,
-            email: true,
-            mobile: true,
-            profilePhoto: true,
-            role: true,
-            createdAt: true
-          }
-        },
-        pod: {
-          select: {
-            id: true,
-            name: true
-          }
-        },
-        reactions: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true
-              }
+    const include = {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          fullName: true,
+          email: true,
+          mobile: true,
+          profilePhoto: true,
+          role: true,
+          createdAt: true
+        }
+      },
+      pod: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
+      reactions: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true
             }
           }
-        },
-        _count: {
-          select: {
-            reactions: true
-          }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
+      poll: {
+        include: getPollSummaryInclude(req.user!.id)
+      },
+      _count: {
+        select: {
+          reactions: true
+        }
       }
+    } satisfies Prisma.PostInclude;
+
+    // Pinned posts lead the first page; the paginated list holds everything else
+    const [pinned, posts] = await Promise.all([
+      pagination.args.cursor
+        ? Promise.resolve([])
+        : prisma.post.findMany({
+            where: { ...whereClause, pinnedAt: { not: null } },
+            include,
+            orderBy: { pinnedAt: 'desc' }
+          }),
+      prisma.post.findMany({
+        where: { ...whereClause, pinnedAt: null },
+        include,
+        orderBy: [
+          { createdAt: 'desc' },
+          { id: 'desc' }
+        ],
+        ...pagination.args
+      })
+    ]);
+
+    const { items, nextCursor } = paginate(posts, pagination.limit);
+
+    res.json({
+      posts: [...pinned, ...items].map(post => ({
+        ...post,
+        isPinned: post.pinnedAt !== null,
+        poll: post.poll ? toPollSummary(post.poll) : null
+      })),
+      nextCursor
     });
-
-    res.json({ posts });
   } catch (error) {
     console.error('Get pod posts error:', error);
     res.status(500).json({ error: 'Failed to fetch posts' });
@@ -85,6 +175,12 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
 router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { type } = req.query; // 'owner', 'member', or 'all'
+    const sort = (req.query.sort as string) || 'latest'; // 'latest', 'top', or 'ranked'
+
+    if (!FEED_SORTS.includes(sort)) {
+      res.status(400).json({ error: `Sort must be one of: ${FEED_SORTS.join(', ')}` });
+      return;
+    }
 
     // Get all pods user is a member of
     const memberships = await prisma.podMember.findMany({
@@ -103,15 +199,12 @@ router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Respo
     const ownedPodIds = ownedPods.map(p => p.id);
     const allPodIds = [...new Set([...memberPodIds, ...ownedPodIds])];
 
-    if (allPodIds.length === 0) {
-      res.json({ posts: [] });
-      return;
-    }
-
-    const whereClause: any = {
+    const whereClause: Prisma.PostWhereInput = {
       podId: {
         in: allPodIds
-      }
+      },
+      status: 'PUBLISHED',
+      hiddenAt: null
     };
 
     // Filter by post type if specified
@@ -121,19 +214,216 @@ router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Respo
       whereClause.type = 'MEMBER_UPDATE';
     }
 
+    const include = {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          fullName: true,
+          email: true,
+          mobile: true,
+          profilePhoto: true,
+          role: true,
+          createdAt: true
+        }
+      },
+      pod: {
+        select: {
+          id: true,
+          name: true,
+        }
+      },
+      // Only the viewer's own reaction; totals come from the post counters
+      reactions: {
+        where: { userId: req.user!.id },
+        select: { type: true }
+      },
+      poll: {
+        include: getPollSummaryInclude(req.user!.id)
+      }
+    } satisfies Prisma.PostInclude;
+
+    let posts: Prisma.PostGetPayload<{ include: typeof include }>[];
+    let nextCursor: string | null;
+
+    if (sort === 'ranked') {
+      const pagination = getOffsetPagination(req.query);
+      if (!pagination) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      if (allPodIds.length === 0) {
+        res.json({ posts: [], nextCursor: null });
+        return;
+      }
+
+      const now = new Date();
+      const [candidates, affinity] = await Promise.all([
+        prisma.post.findMany({
+          where: {
+            ...whereClause,
+            createdAt: { gte: new Date(now.getTime() - RANKED_WINDOW_DAYS * 24 * 60 * 60 * 1000) }
+          },
+          select: {
+            id: true,
+            podId: true,
+            type: true,
+            isOwnerPost: true,
+            reactionCount: true,
+            commentCount: true,
+            createdAt: true
+          },
+          orderBy: [
+            { createdAt: 'desc' },
+            { id: 'desc' }
+          ],
+          take: RANKED_CANDIDATE_LIMIT
+        }),
+        getPodAffinity(req.user!.id, allPodIds)
+      ]);
+
+      const page = paginateOffset(rankPosts(candidates, affinity, now), pagination.offset, pagination.limit);
+      const pageIds = page.items.map(p => p.id);
+
+      const rows = await prisma.post.findMany({
+        where: { id: { in: pageIds } },
+        include
+      });
+
+      // Restore the ranked order
+      const rowsById = new Map(rows.map(row => [row.id, row]));
+      posts = pageIds.map(id => rowsById.get(id)).filter((row): row is typeof rows[number] => !!row);
+      nextCursor = page.nextCursor;
+    } else {
+      const pagination = getPagination(req.query);
+      if (!pagination) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      if (allPodIds.length === 0) {
+        res.json({ posts: [], nextCursor: null });
+        return;
+      }
+
+      if (sort === 'latest') {
+        // The original feed payload, with full `likes`/`comments` lists, plus the counters
+        const rows = await prisma.post.findMany({
+          where: whereClause,
+          include: {
+            ...include,
+            reactions: {
+              select: {
+                id: true,
+                userId: true,
+                type: true
+              }
+            },
+            comments: {
+              select: {
+                id: true
+              }
+            }
+          },
+          orderBy: [
+            { createdAt: 'desc' },
+            { id: 'desc' }
+          ],
+          ...pagination.args
+        });
+
+        const page = paginate(rows, pagination.limit);
+
+        res.json({
+          posts: page.items.map(({ poll, ...post }) => ({
+            ...post,
+            isPinned: post.pinnedAt !== null,
+            poll: poll ? toPollSummary(poll) : null,
+            likes: post.reactions.filter(r => r.type === 'like').map(r => r.userId),
+            comments: post.comments.map(c => c.id),
+            viewerReaction: post.reactions.find(r => r.userId === req.user!.id)?.type ?? null,
+            _count: {
+              reactions: post.reactionCount,
+              comments: post.commentCount
+            }
+          })),
+          nextCursor: page.nextCursor
+        });
+        return;
+      }
+
+      const rows = await prisma.post.findMany({
+        where: whereClause,
+        include,
+        orderBy: [
+          { reactionCount: 'desc' },
+          { commentCount: 'desc' },
+          { createdAt: 'desc' },
+          { id: 'desc' }
+        ],
+        ...pagination.args
+      });
+
+      ({ items: posts, nextCursor } = paginate(rows, pagination.limit));
+    }
+
+    // Expose the counters and the viewer's own reaction instead of full reaction lists
+    const transformedPosts = posts.map(({ reactions, poll, ...post }) => ({
+      ...post,
+      isPinned: post.pinnedAt !== null,
+      poll: poll ? toPollSummary(poll) : null,
+      viewerReaction: reactions[0]?.type ?? null,
+      _count: {
+        reactions: post.reactionCount,
+        comments: post.commentCount
+      }
+    }));
+
+    res.json({ posts: transformedPosts, nextCursor });
+  } catch (error) {
+    console.error('Get feed error:', error);
+    res.status(500).json({ error: 'Failed to fetch feed' });
+  }
+});
+
+// Get drafts and scheduled posts the user can manage
+router.get('/drafts', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId } = req.query;
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const userId = req.user!.id;
+
     const posts = await prisma.post.findMany({
-      where: whereClause,
+      where: {
+        status: { in: ['DRAFT', 'SCHEDULED'] },
+        ...(typeof podId === 'string' && { podId }),
+        OR: [
+          { authorId: userId },
+          {
+            type: 'OWNER_UPDATE',
+            pod: {
+              OR: [
+                { ownerId: userId },
+                { coOwners: { some: { id: userId } } }
+              ]
+            }
+          }
+        ]
+      },
       include: {
         author: {
           select: {
             id: true,
             username: true,
             fullName: true,
-            email: true,
-            mobile: true,
-            profilePhoto: true,
-            role: true,
-            createdAt: true
+            profilePhoto: true
           }
         },
         pod: {
@@ -142,41 +432,26 @@ router.get('/feed', authMiddleware, async (req: AuthenticatedRequest, res: Respo
             name: true,
           }
         },
-        reactions: {
-          select: {
-            id: true,
-            userId: true,
-            type: true
-          }
-        },
-        comments: {
-          select: {
-            id: true
-          }
-        },
-        _count: {
-          select: {
-            reactions: true,
-            comments: true
-          }
+        poll: {
+          include: getPollSummaryInclude(userId)
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
+      orderBy: [
+        { updatedAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
     });
 
-    // Transform posts to include likes array and comments array
-    const transformedPosts = posts.map(post => ({
-      ...post,
-      likes: post.reactions.filter(r => r.type === 'like').map(r => r.userId),
-      comments: post.comments.map(c => c.id)
-    }));
+    const { items, nextCursor } = paginate(posts, pagination.limit);
 
-    res.json({ posts: transformedPosts });
+    res.json({
+      posts: items.map(post => ({ ...post, poll: post.poll ? toPollSummary(post.poll) : null })),
+      nextCursor
+    });
   } catch (error) {
-    console.error('Get feed error:', error);
-    res.status(500).json({ error: 'Failed to fetch feed' });
+    console.error('Get drafts error:', error);
+    res.status(500).json({ error: 'Failed to fetch drafts' });
   }
 });
 
@@ -218,6 +493,7 @@ router.get('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Re
           }
         },
         comments: {
+          where: visibleCommentWhere,
           include: {
             author: {
               select: {
@@ -236,10 +512,13 @@ router.get('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Re
             createdAt: 'asc'
           }
         },
+        poll: {
+          include: getPollSummaryInclude(req.user!.id)
+        },
         _count: {
           select: {
             reactions: true,
-            comments: true
+            comments: { where: visibleCommentWhere }
           }
         }
       }
@@ -250,11 +529,16 @@ router.get('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Re
       return;
     }
 
+    // Drafts and scheduled posts are only visible to the people who can manage them
+    if (post.hiddenAt || (post.status !== 'PUBLISHED' && !(await canManageUnpublishedPost(post, req.user!.id)))) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
     // Check if user is a member of the pod
-    const isMember = await checkPodMembership(post.podId, req.user!.id);
-    const isOwner = await checkPodOwnership(post.podId, req.user!.id);
+    const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       res.status(403).json({ error: 'You must be a member of this pod to view this post' });
       return;
     }
@@ -262,6 +546,7 @@ router.get('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Re
     // Transform post to include likes array and isOwnerPost flag
     const transformedPost = {
       ...post,
+      poll: post.poll ? toPollSummary(post.poll) : null,
       likes: post.reactions.filter(r => r.type === 'like').map(r => r.userId),
       isOwnerPost: post.authorId === post.pod.id || await checkPodOwnership(post.podId, post.authorId)
     };
@@ -279,7 +564,10 @@ router.post('/',
   [
     body('content').notEmpty().withMessage('Content is required'),
     body('podId').notEmpty().withMessage('Pod ID is required'),
-    body('mediaUrls').optional().isArray()
+    body('mediaUrls').optional().isArray(),
+    body('poll').optional().isObject().withMessage('Poll must be an object'),
+    body('isDraft').optional().isBoolean(),
+    body('scheduledAt').optional().isISO8601().withMessage('Scheduled time must be a valid date')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -289,20 +577,43 @@ router.post('/',
         return;
       }
 
-      const { content, podId, mediaUrls = [] } = req.body;
+      const { content, podId, mediaUrls = [], poll, isDraft, scheduledAt } = req.body;
 
       // Check if user is member or owner of the pod
-      const isMember = await checkPodMembership(podId, req.user!.id);
-      const isOwner = await checkPodOwnership(podId, req.user!.id);
+      const { hasAccess, isOwner } = await checkPodAccess(podId, req.user!.id);
 
-      if (!isMember && !isOwner) {
+      if (!hasAccess) {
         res.status(403).json({ error: 'You must be a member of this pod to create posts' });
         return;
       }
 
+      const mute = await getActivePodMute(podId, req.user!.id);
+      if (mute) {
+        res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+        return;
+      }
+
+      const parsedPoll = poll ? parsePollInput(poll) : null;
+      if (parsedPoll && 'error' in parsedPoll) {
+        res.status(400).json({ error: parsedPoll.error });
+        return;
+      }
+
       // Determine post type based on whether user is owner
       const postType = isOwner ? 'OWNER_UPDATE' : 'MEMBER_UPDATE';
 
+      if (scheduledAt && postType !== 'OWNER_UPDATE') {
+        res.status(403).json({ error: 'Only owner updates can be scheduled' });
+        return;
+      }
+
+      if (scheduledAt && new Date(scheduledAt) <= new Date()) {
+        res.status(400).json({ error: 'Scheduled time must be in the future' });
+        return;
+      }
+
+      const status = scheduledAt ? 'SCHEDULED' : isDraft ? 'DRAFT' : 'PUBLISHED';
+
       const post = await prisma.post.create({
         data: {
           content,
@@ -310,7 +621,10 @@ router.post('/',
           type: postType,
           podId,
           authorId: req.user!.id,
-          isOwnerPost: isOwner
+          isOwnerPost: isOwner,
+          status,
+          scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
+          ...(parsedPoll && { poll: { create: parsedPoll.data } })
         },
         include: {
           author: {
@@ -327,6 +641,9 @@ router.post('/',
               name: true,
             }
           },
+          poll: {
+            include: getPollSummaryInclude(req.user!.id)
+          },
           _count: {
             select: {
               reactions: true
@@ -335,7 +652,12 @@ router.post('/',
         }
       });
 
-      res.status(201).json({ post });
+      // Drafts and scheduled posts get their tags and mentions when they are published
+      if (status === 'PUBLISHED') {
+        await runPostPublishEffects(post, { id: req.user!.id, name: req.user!.fullName || req.user!.username });
+      }
+
+      res.status(201).json({ post: { ...post, poll: post.poll ? toPollSummary(post.poll) : null } });
     } catch (error) {
       console.error('Create post error:', error);
       res.status(500).json({ error: 'Failed to create post' });
@@ -348,7 +670,8 @@ router.put('/:postId',
   authMiddleware,
   [
     body('content').optional().notEmpty().withMessage('Content cannot be empty'),
-    body('mediaUrls').optional().isArray()
+    body('mediaUrls').optional().isArray(),
+    body('scheduledAt').optional({ values: 'null' }).isISO8601().withMessage('Scheduled time must be a valid date')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -359,7 +682,7 @@ router.put('/:postId',
       }
 
       const { postId } = req.params;
-      const { content, mediaUrls } = req.body;
+      const { content, mediaUrls, scheduledAt } = req.body;
 
       // Check if post exists and user is the author
       const post = await prisma.post.findUnique({
@@ -371,17 +694,67 @@ router.put('/:postId',
         return;
       }
 
-      if (post.authorId !== req.user!.id) {
+      const isPublished = post.status === 'PUBLISHED';
+
+      if (isPublished && post.authorId !== req.user!.id) {
         res.status(403).json({ error: 'You can only edit your own posts' });
         return;
       }
 
-      const updatedPost = await prisma.post.update({
-        where: { id: postId },
+      if (!isPublished && !(await canManageUnpublishedPost(post, req.user!.id))) {
+        res.status(404).json({ error: 'Post not found' });
+        return;
+      }
+
+      const mute = await getActivePodMute(post.podId, req.user!.id);
+      if (mute) {
+        res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+        return;
+      }
+
+      // Reschedule (a date) or cancel the schedule and keep it as a draft (null)
+      let scheduleData: { status: 'DRAFT' | 'SCHEDULED'; scheduledAt: Date | null } | undefined;
+
+      if (scheduledAt !== undefined) {
+        if (isPublished) {
+          res.status(400).json({ error: 'This post has already been published' });
+          return;
+        }
+
+        if (scheduledAt === null) {
+          scheduleData = { status: 'DRAFT', scheduledAt: null };
+        } else if (post.type !== 'OWNER_UPDATE') {
+          res.status(403).json({ error: 'Only owner updates can be scheduled' });
+          return;
+        } else if (new Date(scheduledAt) <= new Date()) {
+          res.status(400).json({ error: 'Scheduled time must be in the future' });
+          return;
+        } else {
+          scheduleData = { status: 'SCHEDULED', scheduledAt: new Date(scheduledAt) };
+        }
+      }
+
+      // Conditional on the status read above, so a post the scheduler publishes in the
+      // meantime is neither turned back into a draft nor edited without its publish effects
+      const result = await prisma.post.updateMany({
+        where: {
+          id: postId,
+          status: isPublished ? 'PUBLISHED' : { in: ['DRAFT', 'SCHEDULED'] }
+        },
         data: {
           ...(content && { content }),
-          ...(mediaUrls !== undefined && { mediaUrls })
-        },
+          ...(mediaUrls !== undefined && { mediaUrls }),
+          ...scheduleData
+        }
+      });
+
+      if (result.count === 0) {
+        res.status(409).json({ error: 'This post was published while you were editing it. Reload it and try again.' });
+        return;
+      }
+
+      const updatedPost = await prisma.post.findUniqueOrThrow({
+        where: { id: postId },
         include: {
           author: {
             select: {
@@ -405,6 +778,14 @@ router.put('/:postId',
         }
       });
 
+      // Re-index tags and notify newly added mentions; unpublished posts get this when they go out
+      if (content && isPublished) {
+        await runPostPublishEffects(
+          { id: postId, content, podId: post.podId },
+          { id: req.user!.id, name: req.user!.fullName || req.user!.username }
+        );
+      }
+
       res.json({ post: updatedPost });
     } catch (error) {
       console.error('Update post error:', error);
@@ -413,32 +794,207 @@ router.put('/:postId',
   }
 );
 
-// Delete a post (author can delete own post, pod owner can delete any post in their pod)
-router.delete('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Pin a post to the top of its pod, optionally as an announcement (manage_posts)
+router.post('/:postId/pin',
+  authMiddleware,
+  requirePodPermission('manage_posts', 'post'),
+  [
+    body('announcement').optional().isBoolean()
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { postId } = req.params;
+      // Left alone when not sent, so re-pinning keeps an announcement an announcement
+      const announcement: boolean | undefined = req.body.announcement === undefined
+        ? undefined
+        : req.body.announcement === true;
+
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        include: {
+          pod: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      });
+
+      if (!post || post.status !== 'PUBLISHED' || post.hiddenAt) {
+        res.status(404).json({ error: 'Post not found' });
+        return;
+      }
+
+      // Count and pin in one serializable transaction, so concurrent pins cannot exceed the limit
+      let updatedPost;
+      try {
+        updatedPost = await prisma.$transaction(async (tx) => {
+          if (!post.pinnedAt) {
+            const pinnedCount = await tx.post.count({
+              where: { podId: post.podId, pinnedAt: { not: null } }
+            });
+
+            if (pinnedCount >= MAX_PINNED_POSTS) {
+              return null;
+            }
+          }
+
+          return tx.post.update({
+            where: { id: postId },
+            data: {
+              pinnedAt: post.pinnedAt ?? new Date(),
+              pinnedById: post.pinnedById ?? req.user!.id,
+              ...(announcement !== undefined && { isAnnouncement: announcement })
+            }
+          });
+        }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+          res.status(409).json({ error: 'Another post was pinned at the same time. Please try again.' });
+          return;
+        }
+        throw error;
+      }
+
+      if (!updatedPost) {
+        res.status(400).json({ error: `A pod can have at most ${MAX_PINNED_POSTS} pinned posts` });
+        return;
+      }
+
+      // Notify every member the first time a post is made an announcement
+      if (announcement && !post.isAnnouncement) {
+        const members = await prisma.podMember.findMany({
+          where: { podId: post.podId, userId: { not: req.user!.id } },
+          select: { userId: true }
+        });
+
+        await createNotifications(
+          members.map(m => m.userId),
+          'announcement',
+          `Announcement in ${post.pod.name}`,
+          post.content.length > 140 ? `${post.content.slice(0, 139)}…` : post.content,
+          postId,
+          { podId: post.podId }
+        );
+      }
+
+      res.json({ post: { ...updatedPost, isPinned: true } });
+    } catch (error) {
+      console.error('Pin post error:', error);
+      res.status(500).json({ error: 'Failed to pin post' });
+    }
+  }
+);
+
+// Unpin a post (manage_posts)
+router.delete('/:postId/pin', authMiddleware, requirePodPermission('manage_posts', 'post'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { postId } = req.params;
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { pinnedAt: true }
+    });
+
+    if (!post?.pinnedAt) {
+      res.status(400).json({ error: 'This post is not pinned' });
+      return;
+    }
+
+    const updatedPost = await prisma.post.update({
+      where: { id: postId },
+      data: {
+        pinnedAt: null,
+        pinnedById: null,
+        isAnnouncement: false
+      }
+    });
+
+    res.json({ post: { ...updatedPost, isPinned: false } });
+  } catch (error) {
+    console.error('Unpin post error:', error);
+    res.status(500).json({ error: 'Failed to unpin post' });
+  }
+});
+
+// Publish a draft or scheduled post now
+router.post('/:postId/publish', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { postId } = req.params;
 
     const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { authorId: true, podId: true, type: true }
+    });
+
+    if (!post || !(await canManageUnpublishedPost(post, req.user!.id))) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    const mute = await getActivePodMute(post.podId, req.user!.id);
+    if (mute) {
+      res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+      return;
+    }
+
+    if (!(await publishPost(postId))) {
+      res.status(400).json({ error: 'This post has already been published' });
+      return;
+    }
+
+    const publishedPost = await prisma.post.findUnique({
       where: { id: postId },
       include: {
+        author: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            profilePhoto: true
+          }
+        },
         pod: {
           select: {
-            ownerId: true
+            id: true,
+            name: true,
           }
         }
       }
     });
 
+    res.json({ post: publishedPost });
+  } catch (error) {
+    console.error('Publish post error:', error);
+    res.status(500).json({ error: 'Failed to publish post' });
+  }
+});
+
+// Delete a post (author can delete own post, moderators can delete any post in their pod)
+router.delete('/:postId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { postId } = req.params;
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId }
+    });
+
     if (!post) {
       res.status(404).json({ error: 'Post not found' });
       return;
     }
 
-    // Check if user is the author or the pod owner
+    // Check if user is the author or a pod moderator
     const isAuthor = post.authorId === req.user!.id;
-    const isPodOwner = post.pod.ownerId === req.user!.id;
 
-    if (!isAuthor && !isPodOwner) {
+    if (!isAuthor && !(await hasPodPermission(post.podId, req.user!.id, 'moderate'))) {
       res.status(403).json({ error: 'You do not have permission to delete this post' });
       return;
     }
@@ -454,63 +1010,115 @@ router.delete('/:postId', authMiddleware, async (req: AuthenticatedRequest, res:
   }
 });
 
-// Get comments for a post
+// Get top-level comments for a post
 router.get('/:postId/comments', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { postId } = req.params;
 
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
     const post = await prisma.post.findUnique({
       where: { id: postId },
-      select: { podId: true }
+      select: { podId: true, status: true, hiddenAt: true }
     });
 
-    if (!post) {
+    if (!post || post.status !== 'PUBLISHED' || post.hiddenAt) {
       res.status(404).json({ error: 'Post not found' });
       return;
     }
 
     // Check if user is a member of the pod
-    const isMember = await checkPodMembership(post.podId, req.user!.id);
-    const isOwner = await checkPodOwnership(post.podId, req.user!.id);
+    const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       res.status(403).json({ error: 'You must be a member of this pod to view comments' });
       return;
     }
 
     const comments = await prisma.comment.findMany({
-      where: { postId },
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            fullName: true,
-            email: true,
-            mobile: true,
-            profilePhoto: true,
-            role: true,
-            createdAt: true
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'asc'
-      }
+      where: { postId, parentId: null, hiddenAt: null },
+      include: getCommentInclude(req.user!.id),
+      orderBy: [
+        { createdAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
     });
 
-    res.json({ comments });
+    const { items, nextCursor } = paginate(comments, pagination.limit);
+
+    res.json({ comments: items.map(toCommentResponse), nextCursor });
   } catch (error) {
     console.error('Get comments error:', error);
     res.status(500).json({ error: 'Failed to fetch comments' });
   }
 });
 
-// Add a comment to a post
+// Get a comment and its direct replies
+router.get('/:postId/comments/:commentId/thread', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { postId, commentId } = req.params;
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: {
+        ...getCommentInclude(req.user!.id),
+        post: { select: { podId: true, hiddenAt: true } }
+      }
+    });
+
+    if (!comment || comment.postId !== postId || comment.hiddenAt || comment.post.hiddenAt) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    const { hasAccess } = await checkPodAccess(comment.post.podId, req.user!.id);
+
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You must be a member of this pod to view comments' });
+      return;
+    }
+
+    const replies = await prisma.comment.findMany({
+      where: { parentId: commentId, hiddenAt: null },
+      include: getCommentInclude(req.user!.id),
+      orderBy: [
+        { createdAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(replies, pagination.limit);
+    const { post, ...rest } = comment;
+
+    res.json({
+      comment: toCommentResponse(rest),
+      replies: items.map(toCommentResponse),
+      nextCursor
+    });
+  } catch (error) {
+    console.error('Get comment thread error:', error);
+    res.status(500).json({ error: 'Failed to fetch comment thread' });
+  }
+});
+
+// Add a comment (or a reply to a comment) to a post
 router.post('/:postId/comments',
   authMiddleware,
   [
-    body('content').notEmpty().withMessage('Comment content is required')
+    body('content').notEmpty().withMessage('Comment content is required'),
+    body('parentId').optional().isString().withMessage('Parent comment ID must be a string')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -521,50 +1129,96 @@ router.post('/:postId/comments',
       }
 
       const { postId } = req.params;
-      const { content } = req.body;
+      const { content, parentId } = req.body;
 
       const post = await prisma.post.findUnique({
         where: { id: postId },
-        select: { podId: true }
+        select: { podId: true, authorId: true, status: true, hiddenAt: true }
       });
 
-      if (!post) {
+      if (!post || post.status !== 'PUBLISHED' || post.hiddenAt) {
         res.status(404).json({ error: 'Post not found' });
         return;
       }
 
       // Check if user is a member of the pod
-      const isMember = await checkPodMembership(post.podId, req.user!.id);
-      const isOwner = await checkPodOwnership(post.podId, req.user!.id);
+      const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
 
-      if (!isMember && !isOwner) {
+      if (!hasAccess) {
         res.status(403).json({ error: 'You must be a member of this pod to comment' });
         return;
       }
 
+      const mute = await getActivePodMute(post.podId, req.user!.id);
+      if (mute) {
+        res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+        return;
+      }
+
+      let parent: { id: string; authorId: string; depth: number } | null = null;
+
+      if (parentId) {
+        parent = await prisma.comment.findFirst({
+          where: { id: parentId, postId, hiddenAt: null },
+          select: { id: true, authorId: true, depth: true }
+        });
+
+        if (!parent) {
+          res.status(404).json({ error: 'Parent comment not found' });
+          return;
+        }
+
+        if (parent.depth >= MAX_COMMENT_DEPTH) {
+          res.status(400).json({ error: `Replies can only be nested ${MAX_COMMENT_DEPTH} levels deep` });
+          return;
+        }
+      }
+
       const comment = await prisma.comment.create({
         data: {
           content,
           postId,
-          authorId: req.user!.id
+          authorId: req.user!.id,
+          parentId: parent?.id,
+          depth: parent ? parent.depth + 1 : 0
         },
-        include: {
-          author: {
-            select: {
-              id: true,
-              username: true,
-              fullName: true,
-              email: true,
-              mobile: true,
-              profilePhoto: true,
-              role: true,
-              createdAt: true
-            }
-          }
-        }
+        include: getCommentInclude(req.user!.id)
       });
 
-      res.status(201).json({ comment });
+      await refreshPostCounters(postId);
+
+      const authorName = req.user!.fullName || req.user!.username;
+
+      await syncMentions(
+        { commentId: comment.id },
+        content,
+        { id: req.user!.id, name: authorName },
+        podAudience(post.podId),
+        { message: 'mentioned you in a comment', linkedId: postId, context: { podId: post.podId } }
+      );
+
+      // Replies notify the parent comment's author, top-level comments the post author
+      if (parent && parent.authorId !== req.user!.id) {
+        await createNotification(
+          parent.authorId,
+          'comment',
+          'New reply',
+          `${authorName} replied to your comment`,
+          postId,
+          { podId: post.podId }
+        );
+      } else if (!parent && post.authorId !== req.user!.id) {
+        await createNotification(
+          post.authorId,
+          'comment',
+          'New comment',
+          `${authorName} commented on your post`,
+          postId,
+          { podId: post.podId }
+        );
+      }
+
+      res.status(201).json({ comment: toCommentResponse(comment) });
     } catch (error) {
       console.error('Create comment error:', error);
       res.status(500).json({ error: 'Failed to create comment' });
@@ -572,6 +1226,87 @@ router.post('/:postId/comments',
   }
 );
 
+// Edit a comment
+router.patch('/:postId/comments/:commentId',
+  authMiddleware,
+  [
+    body('content').notEmpty().withMessage('Comment content is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { postId, commentId } = req.params;
+      const { content } = req.body;
+
+      const existing = await prisma.comment.findUnique({
+        where: { id: commentId },
+        select: {
+          postId: true,
+          authorId: true,
+          hiddenAt: true,
+          post: { select: { podId: true, status: true, hiddenAt: true } }
+        }
+      });
+
+      if (!existing || existing.postId !== postId || existing.hiddenAt) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      if (existing.post.status !== 'PUBLISHED' || existing.post.hiddenAt) {
+        res.status(404).json({ error: 'Post not found' });
+        return;
+      }
+
+      if (existing.authorId !== req.user!.id) {
+        res.status(403).json({ error: 'Only the author can edit this comment' });
+        return;
+      }
+
+      // Authors who left or were removed from the pod can no longer edit
+      const { hasAccess } = await checkPodAccess(existing.post.podId, req.user!.id);
+
+      if (!hasAccess) {
+        res.status(403).json({ error: 'You must be a member of this pod to edit comments' });
+        return;
+      }
+
+      const mute = await getActivePodMute(existing.post.podId, req.user!.id);
+      if (mute) {
+        res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+        return;
+      }
+
+      const comment = await prisma.comment.update({
+        where: { id: commentId },
+        data: {
+          content,
+          editedAt: new Date()
+        },
+        include: getCommentInclude(req.user!.id)
+      });
+
+      await syncMentions(
+        { commentId },
+        content,
+        { id: req.user!.id, name: req.user!.fullName || req.user!.username },
+        podAudience(existing.post.podId),
+        { message: 'mentioned you in a comment', linkedId: postId, context: { podId: existing.post.podId } }
+      );
+
+      res.json({ comment: toCommentResponse(comment) });
+    } catch (error) {
+      console.error('Update comment error:', error);
+      res.status(500).json({ error: 'Failed to update comment' });
+    }
+  }
+);
+
 // Delete a comment
 router.delete('/:postId/comments/:commentId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -581,12 +1316,8 @@ router.delete('/:postId/comments/:commentId', authMiddleware, async (req: Authen
       where: { id: commentId },
       include: {
         post: {
-          include: {
-            pod: {
-              select: {
-                ownerId: true
-              }
-            }
+          select: {
+            podId: true
           }
         }
       }
@@ -597,11 +1328,10 @@ router.delete('/:postId/comments/:commentId', authMiddleware, async (req: Authen
       return;
     }
 
-    // Check if user is the author or the pod owner
+    // Check if user is the author or a pod moderator
     const isAuthor = comment.authorId === req.user!.id;
-    const isPodOwner = comment.post.pod.ownerId === req.user!.id;
 
-    if (!isAuthor && !isPodOwner) {
+    if (!isAuthor && !(await hasPodPermission(comment.post.podId, req.user!.id, 'moderate'))) {
       res.status(403).json({ error: 'You do not have permission to delete this comment' });
       return;
     }
@@ -610,6 +1340,8 @@ router.delete('/:postId/comments/:commentId', authMiddleware, async (req: Authen
       where: { id: commentId }
     });
 
+    await refreshPostCounters(comment.postId);
+
     res.json({ message: 'Comment deleted successfully' });
   } catch (error) {
     console.error('Delete comment error:', error);
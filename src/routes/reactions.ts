@@ -3,11 +3,15 @@ import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
+import { createNotification } from './notifications.js';
+import { refreshPostCounters } from '../utils/postCounters.js';
+import { checkPodAccess } from '../utils/permissions.js';
+import { isValidEmoji, addMessageReaction, removeMessageReaction, loadReactableMessage } from '../utils/messageReactions.js';
 
 const router = express.Router();
 
-// Valid reaction types
-const VALID_REACTION_TYPES = ['like', 'love', 'wow', 'sad', 'angry'];
+// Valid reaction types, shared by post and comment reactions
+export const VALID_REACTION_TYPES = ['like', 'love', 'wow', 'sad', 'angry'];
 
 // Add or update reaction to a post
 router.post('/',
@@ -39,24 +43,15 @@ router.post('/',
         }
       });
 
-      if (!post) {
+      if (!post || post.status !== 'PUBLISHED' || post.hiddenAt) {
         res.status(404).json({ error: 'Post not found' });
         return;
       }
 
-      // Check if user is a member or owner of the pod
-      const isMember = await prisma.podMember.findUnique({
-        where: {
-          podId_userId: {
-            podId: post.podId,
-            userId: req.user!.id
-          }
-        }
-      });
-
-      const isOwner = post.pod.ownerId === req.user!.id;
+      // Check if user is a member, owner or co-owner of the pod
+      const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
 
-      if (!isMember && !isOwner) {
+      if (!hasAccess) {
         res.status(403).json({ error: 'You must be a member of this pod to react to posts' });
         return;
       }
@@ -104,6 +99,19 @@ router.post('/',
         }
       });
 
+      await refreshPostCounters(postId);
+
+      if (post.authorId !== req.user!.id) {
+        await createNotification(
+          post.authorId,
+          'post_like',
+          'New reaction',
+          `${req.user!.fullName || req.user!.username} reacted with "${type}" to your post`,
+          postId,
+          { podId: post.podId }
+        );
+      }
+
       res.status(201).json({ reaction });
     } catch (error) {
       console.error('Add reaction error:', error);
@@ -140,6 +148,8 @@ router.delete('/:postId', authMiddleware, async (req: AuthenticatedRequest, res:
       return;
     }
 
+    await refreshPostCounters(postId);
+
     res.json({ message: 'Reaction removed successfully' });
   } catch (error) {
     console.error('Remove reaction error:', error);
@@ -165,24 +175,15 @@ router.get('/post/:postId', authMiddleware, async (req: AuthenticatedRequest, re
       }
     });
 
-    if (!post) {
+    if (!post || post.hiddenAt) {
       res.status(404).json({ error: 'Post not found' });
       return;
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: post.podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = post.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(post.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       res.status(403).json({ error: 'You must be a member of this pod to view reactions' });
       return;
     }
@@ -228,4 +229,285 @@ router.get('/post/:postId', authMiddleware, async (req: AuthenticatedRequest, re
   }
 });
 
+// Add or update reaction to a comment
+router.post('/comment',
+  authMiddleware,
+  [
+    body('commentId').notEmpty().withMessage('Comment ID is required'),
+    body('type').isIn(VALID_REACTION_TYPES).withMessage(`Type must be one of: ${VALID_REACTION_TYPES.join(', ')}`)
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { commentId, type } = req.body;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id: commentId },
+        include: {
+          post: {
+            select: {
+              podId: true,
+              hiddenAt: true
+            }
+          }
+        }
+      });
+
+      if (!comment || comment.hiddenAt || comment.post.hiddenAt) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+
+      const { hasAccess } = await checkPodAccess(comment.post.podId, req.user!.id);
+
+      if (!hasAccess) {
+        res.status(403).json({ error: 'You must be a member of this pod to react to comments' });
+        return;
+      }
+
+      const existingReaction = await prisma.commentReaction.findUnique({
+        where: {
+          commentId_userId_type: {
+            commentId,
+            userId: req.user!.id,
+            type
+          }
+        }
+      });
+
+      if (existingReaction) {
+        res.status(400).json({ error: 'You have already reacted with this type' });
+        return;
+      }
+
+      // A user has at most one reaction per comment, as with posts
+      const [, reaction] = await prisma.$transaction([
+        prisma.commentReaction.deleteMany({
+          where: {
+            commentId,
+            userId: req.user!.id
+          }
+        }),
+        prisma.commentReaction.create({
+          data: {
+            type,
+            commentId,
+            userId: req.user!.id
+          },
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                fullName: true,
+                avatar: true
+              }
+            }
+          }
+        })
+      ]);
+
+      res.status(201).json({ reaction });
+    } catch (error) {
+      console.error('Add comment reaction error:', error);
+      res.status(500).json({ error: 'Failed to add reaction' });
+    }
+  }
+);
+
+// Remove reaction from a comment
+router.delete('/comment/:commentId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const result = await prisma.commentReaction.deleteMany({
+      where: {
+        commentId,
+        userId: req.user!.id
+      }
+    });
+
+    if (result.count === 0) {
+      res.status(404).json({ error: 'No reaction found to remove' });
+      return;
+    }
+
+    res.json({ message: 'Reaction removed successfully' });
+  } catch (error) {
+    console.error('Remove comment reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+});
+
+// Get reactions for a comment
+router.get('/comment/:commentId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: {
+        post: {
+          select: {
+            podId: true
+          }
+        }
+      }
+    });
+
+    if (!comment) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    const { hasAccess } = await checkPodAccess(comment.post.podId, req.user!.id);
+
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You must be a member of this pod to view reactions' });
+      return;
+    }
+
+    const reactions = await prisma.commentReaction.findMany({
+      where: { commentId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            avatar: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    // Count reactions by type
+    const summary = reactions.reduce((acc, reaction) => {
+      acc[reaction.type] = (acc[reaction.type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    res.json({
+      reactions,
+      summary,
+      totalCount: reactions.length
+    });
+  } catch (error) {
+    console.error('Get comment reactions error:', error);
+    res.status(500).json({ error: 'Failed to fetch reactions' });
+  }
+});
+
+// Add an emoji reaction to a room or DM message
+router.post('/message',
+  authMiddleware,
+  [
+    body('messageId').notEmpty().withMessage('Message ID is required'),
+    body('emoji').custom(isValidEmoji).withMessage('Reaction must be an emoji')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { messageId, emoji } = req.body;
+
+      const error = await addMessageReaction(messageId, req.user!.id, emoji);
+      if (error) {
+        res.status(error.status).json({ error: error.error });
+        return;
+      }
+
+      res.status(201).json({ message: 'Reaction added successfully' });
+    } catch (error) {
+      console.error('Add message reaction error:', error);
+      res.status(500).json({ error: 'Failed to add reaction' });
+    }
+  }
+);
+
+// Remove your emoji reaction from a message
+router.delete('/message/:messageId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const { emoji } = req.query;
+
+    if (typeof emoji !== 'string' || !emoji) {
+      res.status(400).json({ error: 'Emoji is required' });
+      return;
+    }
+
+    const error = await removeMessageReaction(messageId, req.user!.id, emoji);
+    if (error) {
+      res.status(error.status).json({ error: error.error });
+      return;
+    }
+
+    res.json({ message: 'Reaction removed successfully' });
+  } catch (error) {
+    console.error('Remove message reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+});
+
+// Get who reacted to a message, grouped by emoji
+router.get('/message/:messageId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+
+    const loaded = await loadReactableMessage(messageId, req.user!.id);
+    if ('error' in loaded) {
+      res.status(loaded.status).json({ error: loaded.error });
+      return;
+    }
+
+    const reactions = await prisma.messageReaction.findMany({
+      where: { messageId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            avatar: true
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'asc' },
+        { id: 'asc' }
+      ]
+    });
+
+    // Group users by emoji, in order of first use
+    const summary = reactions.reduce((acc, reaction) => {
+      if (!acc[reaction.emoji]) {
+        acc[reaction.emoji] = [];
+      }
+      acc[reaction.emoji].push(reaction.user);
+      return acc;
+    }, {} as Record<string, typeof reactions[number]['user'][]>);
+
+    res.json({
+      reactions,
+      summary,
+      totalCount: reactions.length
+    });
+  } catch (error) {
+    console.error('Get message reactions error:', error);
+    res.status(500).json({ error: 'Failed to fetch reactions' });
+  }
+});
+
 export default router;
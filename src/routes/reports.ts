@@ -0,0 +1,482 @@
+import express, { Response } from 'express';
+import { ModerationActionType, ReportStatus, ReportTargetType } from '@prisma/client';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { body, validationResult } from 'express-validator';
+import prisma from '../utils/prisma.js';
+import { checkPodAccess, checkChatParticipant, hasPodPermission, podsWithPermissionWhere, getPodRank } from '../utils/permissions.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+import { refreshPostCounters } from '../utils/postCounters.js';
+import { removePodMember, banFromPod } from '../utils/podMembership.js';
+import { createNotification } from './notifications.js';
+
+const router = express.Router();
+
+const REPORT_TARGET_TYPES: Record<string, ReportTargetType> = {
+  post: 'POST',
+  comment: 'COMMENT',
+  room_message: 'ROOM_MESSAGE',
+  direct_message: 'DIRECT_MESSAGE'
+};
+
+const REPORT_REASONS = ['SPAM', 'HARASSMENT', 'HATE_SPEECH', 'NUDITY', 'VIOLENCE', 'MISINFORMATION', 'SCAM', 'OTHER'];
+
+const MODERATION_ACTIONS: Record<string, ModerationActionType> = {
+  dismiss: 'DISMISS',
+  hide_content: 'HIDE_CONTENT',
+  delete_content: 'DELETE_CONTENT',
+  warn: 'WARN',
+  remove_member: 'REMOVE_MEMBER',
+  ban: 'BAN'
+};
+
+interface ReportTarget {
+  podId: string | null;
+  chatId: string | null;
+  postId: string | null;
+  authorId: string;
+  content: string;
+  hiddenAt: Date | null;
+}
+
+/**
+ * Load the reported content with the pod (or chat) it lives in
+ */
+const loadReportTarget = async (targetType: ReportTargetType, targetId: string): Promise<ReportTarget | null> => {
+  switch (targetType) {
+    case 'POST': {
+      const post = await prisma.post.findUnique({ where: { id: targetId } });
+      return post && post.status === 'PUBLISHED'
+        ? { podId: post.podId, chatId: null, postId: post.id, authorId: post.authorId, content: post.content, hiddenAt: post.hiddenAt }
+        : null;
+    }
+    case 'COMMENT': {
+      const comment = await prisma.comment.findUnique({
+        where: { id: targetId },
+        include: { post: { select: { podId: true } } }
+      });
+      return comment
+        ? { podId: comment.post.podId, chatId: null, postId: comment.postId, authorId: comment.authorId, content: comment.content, hiddenAt: comment.hiddenAt }
+        : null;
+    }
+    case 'ROOM_MESSAGE': {
+      const message = await prisma.message.findUnique({
+        where: { id: targetId },
+        include: { room: { select: { podId: true } } }
+      });
+      return message?.room
+        ? { podId: message.room.podId, chatId: null, postId: null, authorId: message.senderId, content: message.content, hiddenAt: message.hiddenAt }
+        : null;
+    }
+    case 'DIRECT_MESSAGE': {
+      const message = await prisma.message.findUnique({ where: { id: targetId } });
+      return message?.chatId
+        ? { podId: null, chatId: message.chatId, postId: null, authorId: message.senderId, content: message.content, hiddenAt: message.hiddenAt }
+        : null;
+    }
+  }
+};
+
+/**
+ * Platform admins moderate everything; holders of the moderate permission moderate their pod
+ */
+const canModerate = async (podId: string | null, user: { id: string; role: string }): Promise<boolean> => {
+  if (user.role === 'PLATFORM_ADMIN') {
+    return true;
+  }
+
+  return podId ? hasPodPermission(podId, user.id, 'moderate') : false;
+};
+
+/**
+ * Pods the user moderates, or null for platform admins (all pods)
+ */
+const getModeratedPodIds = async (user: { id: string; role: string }): Promise<string[] | null> => {
+  if (user.role === 'PLATFORM_ADMIN') {
+    return null;
+  }
+
+  const pods = await prisma.pod.findMany({
+    where: podsWithPermissionWhere(user.id, 'moderate'),
+    select: { id: true }
+  });
+
+  return pods.map(p => p.id);
+};
+
+/**
+ * Where clause limiting reports or log entries to what the user moderates.
+ * Returns null when the user asked for a pod they do not moderate.
+ */
+const getModerationScope = async (
+  user: { id: string; role: string },
+  podId: unknown
+): Promise<{ podId?: string | { in: string[] } } | null> => {
+  const moderatedPodIds = await getModeratedPodIds(user);
+
+  if (typeof podId === 'string') {
+    return moderatedPodIds === null || moderatedPodIds.includes(podId) ? { podId } : null;
+  }
+
+  return moderatedPodIds === null ? {} : { podId: { in: moderatedPodIds } };
+};
+
+// Report a post, comment, room message or direct message
+router.post('/',
+  authMiddleware,
+  [
+    body('targetType').isIn(Object.keys(REPORT_TARGET_TYPES)).withMessage(`Target type must be one of: ${Object.keys(REPORT_TARGET_TYPES).join(', ')}`),
+    body('targetId').notEmpty().withMessage('Target ID is required'),
+    body('reason').isIn(REPORT_REASONS).withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+    body('details').optional().isString().isLength({ max: 1000 })
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { targetId, reason, details } = req.body;
+      const targetType = REPORT_TARGET_TYPES[req.body.targetType];
+      const userId = req.user!.id;
+
+      const target = await loadReportTarget(targetType, targetId);
+
+      // Users can only report content they can see
+      const canSee = target && (target.podId
+        ? (await checkPodAccess(target.podId, userId)).hasAccess
+        : await checkChatParticipant(target.chatId!, userId));
+
+      if (!target || !canSee) {
+        res.status(404).json({ error: 'Content not found' });
+        return;
+      }
+
+      if (target.authorId === userId) {
+        res.status(400).json({ error: 'You cannot report your own content' });
+        return;
+      }
+
+      const existing = await prisma.report.findUnique({
+        where: {
+          reporterId_targetType_targetId: {
+            reporterId: userId,
+            targetType,
+            targetId
+          }
+        }
+      });
+
+      if (existing) {
+        res.status(400).json({ error: 'You have already reported this content' });
+        return;
+      }
+
+      const report = await prisma.report.create({
+        data: {
+          reporterId: userId,
+          targetType,
+          targetId,
+          targetAuthorId: target.authorId,
+          podId: target.podId,
+          reason,
+          details
+        }
+      });
+
+      res.status(201).json({ report });
+    } catch (error) {
+      console.error('Create report error:', error);
+      res.status(500).json({ error: 'Failed to report content' });
+    }
+  }
+);
+
+// Get the moderation queue (pod owners/co-owners: their pods, platform admins: everything)
+router.get('/queue', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const status = (req.query.status as string) || 'OPEN';
+
+    if (!['OPEN', 'DISMISSED', 'ACTIONED'].includes(status)) {
+      res.status(400).json({ error: 'Status must be one of: OPEN, DISMISSED, ACTIONED' });
+      return;
+    }
+
+    const scope = await getModerationScope(req.user!, req.query.podId);
+    if (!scope) {
+      res.status(403).json({ error: 'You do not moderate this pod' });
+      return;
+    }
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const reports = await prisma.report.findMany({
+      where: {
+        ...scope,
+        status: status as ReportStatus
+      },
+      include: {
+        reporter: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            profilePhoto: true
+          }
+        },
+        targetAuthor: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            profilePhoto: true
+          }
+        },
+        pod: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'asc' },
+        { id: 'asc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(reports, pagination.limit);
+
+    // Attach the reported content; null when it has since been deleted
+    const withContent = await Promise.all(items.map(async report => {
+      const target = await loadReportTarget(report.targetType, report.targetId);
+      return {
+        ...report,
+        content: target ? { text: target.content, postId: target.postId, hiddenAt: target.hiddenAt } : null
+      };
+    }));
+
+    res.json({ reports: withContent, nextCursor });
+  } catch (error) {
+    console.error('Get moderation queue error:', error);
+    res.status(500).json({ error: 'Failed to fetch moderation queue' });
+  }
+});
+
+// Get the moderation log
+router.get('/log', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const scope = await getModerationScope(req.user!, req.query.podId);
+    if (!scope) {
+      res.status(403).json({ error: 'You do not moderate this pod' });
+      return;
+    }
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const entries = await prisma.moderationLog.findMany({
+      where: scope,
+      include: {
+        moderator: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true
+          }
+        },
+        targetUser: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(entries, pagination.limit);
+
+    res.json({ entries: items, nextCursor });
+  } catch (error) {
+    console.error('Get moderation log error:', error);
+    res.status(500).json({ error: 'Failed to fetch moderation log' });
+  }
+});
+
+// Act on a report
+router.post('/:reportId/action',
+  authMiddleware,
+  [
+    body('action').isIn(Object.keys(MODERATION_ACTIONS)).withMessage(`Action must be one of: ${Object.keys(MODERATION_ACTIONS).join(', ')}`),
+    body('note').optional().isString().isLength({ max: 1000 }),
+    body('banDays').optional().isInt({ min: 1 }).withMessage('Ban duration must be a positive number of days')
+  ],
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { reportId } = req.params;
+      const { note, banDays } = req.body;
+      const action = MODERATION_ACTIONS[req.body.action];
+
+      const report = await prisma.report.findUnique({
+        where: { id: reportId },
+        include: {
+          pod: {
+            select: {
+              id: true,
+              name: true,
+              ownerId: true
+            }
+          }
+        }
+      });
+
+      if (!report || !(await canModerate(report.podId, req.user!))) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+
+      if (report.status !== 'OPEN') {
+        res.status(400).json({ error: 'This report has already been resolved' });
+        return;
+      }
+
+      const { targetType, targetId } = report;
+
+      switch (action) {
+        case 'DISMISS':
+          break;
+
+        case 'HIDE_CONTENT':
+        case 'DELETE_CONTENT': {
+          const target = await loadReportTarget(targetType, targetId);
+          if (!target) {
+            res.status(404).json({ error: 'The reported content no longer exists' });
+            return;
+          }
+
+          if (action === 'HIDE_CONTENT') {
+            const data = { hiddenAt: new Date() };
+            if (targetType === 'POST') {
+              await prisma.post.update({ where: { id: targetId }, data });
+            } else if (targetType === 'COMMENT') {
+              await prisma.comment.update({ where: { id: targetId }, data });
+            } else {
+              await prisma.message.update({ where: { id: targetId }, data });
+            }
+          } else if (targetType === 'POST') {
+            await prisma.post.delete({ where: { id: targetId } });
+          } else if (targetType === 'COMMENT') {
+            await prisma.comment.delete({ where: { id: targetId } });
+            await refreshPostCounters(target.postId!);
+          } else {
+            await prisma.message.delete({ where: { id: targetId } });
+          }
+          break;
+        }
+
+        case 'WARN':
+          await createNotification(
+            report.targetAuthorId,
+            'moderation',
+            'Warning from moderators',
+            note || `Content you posted${report.pod ? ` in ${report.pod.name}` : ''} was reported for ${report.reason.toLowerCase().replace('_', ' ')}. Please follow the community guidelines.`,
+            report.podId ?? undefined
+          );
+          break;
+
+        case 'REMOVE_MEMBER':
+        case 'BAN':
+          // Membership actions need a pod; direct message reports have none
+          if (!report.pod) {
+            res.status(400).json({ error: 'This action is only available for content in a pod' });
+            return;
+          }
+
+          if (report.targetAuthorId === report.pod.ownerId) {
+            res.status(400).json({ error: 'The pod owner cannot be removed from their pod' });
+            return;
+          }
+
+          if (req.user!.role !== 'PLATFORM_ADMIN') {
+            const [actor, target] = await Promise.all([
+              checkPodAccess(report.pod.id, req.user!.id),
+              checkPodAccess(report.pod.id, report.targetAuthorId)
+            ]);
+
+            if (target.role && getPodRank(target) >= getPodRank(actor)) {
+              res.status(400).json({ error: 'You can only remove or ban people ranked below you in this pod' });
+              return;
+            }
+          }
+
+          if (action === 'REMOVE_MEMBER') {
+            if (!(await removePodMember(report.pod.id, report.targetAuthorId))) {
+              res.status(404).json({ error: 'User is not a member of this pod' });
+              return;
+            }
+          } else {
+            const expiresAt = banDays ? new Date(Date.now() + banDays * 24 * 60 * 60 * 1000) : null;
+            await banFromPod(report.pod.id, report.targetAuthorId, req.user!.id, note, expiresAt);
+          }
+          break;
+      }
+
+      // Close every open report of the same content with this decision
+      const resolvedAt = new Date();
+      await prisma.report.updateMany({
+        where: { targetType, targetId, status: 'OPEN' },
+        data: {
+          status: action === 'DISMISS' ? 'DISMISSED' : 'ACTIONED',
+          resolution: action,
+          resolvedById: req.user!.id,
+          resolvedAt
+        }
+      });
+
+      const logEntry = await prisma.moderationLog.create({
+        data: {
+          moderatorId: req.user!.id,
+          action,
+          reportId,
+          podId: report.podId,
+          targetType,
+          targetId,
+          targetUserId: report.targetAuthorId,
+          note
+        }
+      });
+
+      const updatedReport = await prisma.report.findUnique({
+        where: { id: reportId }
+      });
+
+      res.json({ report: updatedReport, log: logEntry });
+    } catch (error) {
+      console.error('Moderation action error:', error);
+      res.status(500).json({ error: 'Failed to apply moderation action' });
+    }
+  }
+);
+
+export default router;
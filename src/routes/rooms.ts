@@ -1,7 +1,13 @@
 import express, { Response } from 'express';
-import { authMiddleware, isPodOwner, AuthenticatedRequest } from '../middleware/auth.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
+import { getPagination, paginate, encodeCursor, MESSAGE_PAGE_LIMIT } from '../utils/pagination.js';
+import { getActivePodMute } from '../utils/podMembership.js';
+import { checkPodAccess, hasPodPermission, requirePodPermission } from '../utils/permissions.js';
+import { roomMessageInclude, threadSummaryInclude, toRoomMessageResponse, toThreadRootResponse, followThread, editRoomMessage, deleteRoomMessage } from '../utils/roomMessages.js';
+import { withReactions } from '../utils/messageReactions.js';
+import { markRoomRead, getRoomUnreadCounts } from '../utils/readMarkers.js';
 
 const router = express.Router();
 
@@ -10,28 +16,19 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
   try {
     const { podId } = req.params;
 
-    // Check if user is a member or owner of the pod
+    // Check if user is a member, owner or co-owner of the pod
     const pod = await prisma.pod.findUnique({
       where: { id: podId },
-      select: { ownerId: true }
+      select: { id: true }
     });
 
     if (!pod) {
       return res.status(404).json({ error: 'Pod not found' });
     }
 
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = pod.ownerId === req.user!.id;
+    const { hasAccess } = await checkPodAccess(podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view rooms' });
     }
 
@@ -48,6 +45,15 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
           select: {
             messages: true
           }
+        },
+        messages: {
+          where: { parentId: null, hiddenAt: null, deletedAt: null },
+          take: 1,
+          orderBy: [
+            { createdAt: 'desc' },
+            { id: 'desc' }
+          ],
+          include: roomMessageInclude
         }
       },
       orderBy: {
@@ -55,7 +61,15 @@ router.get('/pod/:podId', authMiddleware, async (req: AuthenticatedRequest, res:
       }
     });
 
-    res.json({ rooms });
+    const unreadCounts = await getRoomUnreadCounts(podId, rooms.map(room => room.id), req.user!.id);
+
+    res.json({
+      rooms: rooms.map(({ messages, ...room }) => ({
+        ...room,
+        lastMessage: messages[0] ? toRoomMessageResponse(messages[0]) : null,
+        unreadCount: unreadCounts.get(room.id) ?? 0
+      }))
+    });
   } catch (error) {
     console.error('Get rooms error:', error);
     res.status(500).json({ error: 'Failed to fetch rooms' });
@@ -89,19 +103,10 @@ router.get('/:roomId', authMiddleware, async (req: AuthenticatedRequest, res: Re
       return res.status(404).json({ error: 'Room not found' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: room.podId,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = room.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(room.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view this room' });
     }
 
@@ -112,10 +117,10 @@ router.get('/:roomId', authMiddleware, async (req: AuthenticatedRequest, res: Re
   }
 });
 
-// Create a room (pod owner only)
+// Create a room (manage_rooms)
 router.post('/',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_rooms'),
   [
     body('name').isLength({ min: 3 }).withMessage('Room name must be at least 3 characters'),
     body('description').optional().isString(),
@@ -132,19 +137,6 @@ router.post('/',
 
       const { name, description, podId, type, privacy } = req.body;
 
-      // Check if user owns the pod
-      const pod = await prisma.pod.findUnique({
-        where: { id: podId }
-      });
-
-      if (!pod) {
-        return res.status(404).json({ error: 'Pod not found' });
-      }
-
-      if (pod.ownerId !== req.user!.id) {
-        return res.status(403).json({ error: 'You are not the owner of this pod' });
-      }
-
       const room = await prisma.room.create({
         data: {
           name,
@@ -172,10 +164,10 @@ router.post('/',
   }
 );
 
-// Update a room (pod owner only)
+// Update a room (manage_rooms)
 router.put('/:roomId',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_rooms', 'room'),
   [
     body('name').optional().isLength({ min: 3 }),
     body('description').optional().isString()
@@ -190,26 +182,6 @@ router.put('/:roomId',
       const { roomId } = req.params;
       const { name, description } = req.body;
 
-      // Check if room exists and user owns the pod
-      const room = await prisma.room.findUnique({
-        where: { id: roomId },
-        include: {
-          pod: {
-            select: {
-              ownerId: true
-            }
-          }
-        }
-      });
-
-      if (!room) {
-        return res.status(404).json({ error: 'Room not found' });
-      }
-
-      if (room.pod.ownerId !== req.user!.id) {
-        return res.status(403).json({ error: 'You are not the owner of this pod' });
-      }
-
       const updatedRoom = await prisma.room.update({
         where: { id: roomId },
         data: {
@@ -234,31 +206,11 @@ router.put('/:roomId',
   }
 );
 
-// Delete a room (pod owner only)
-router.delete('/:roomId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response) => {
+// Delete a room (manage_rooms)
+router.delete('/:roomId', authMiddleware, requirePodPermission('manage_rooms', 'room'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { roomId } = req.params;
 
-    // Check if room exists and user owns the pod
-    const room = await prisma.room.findUnique({
-      where: { id: roomId },
-      include: {
-        pod: {
-          select: {
-            ownerId: true
-          }
-        }
-      }
-    });
-
-    if (!room) {
-      return res.status(404).json({ error: 'Room not found' });
-    }
-
-    if (room.pod.ownerId !== req.user!.id) {
-      return res.status(403).json({ error: 'You are not the owner of this pod' });
-    }
-
     await prisma.room.delete({
       where: { id: roomId }
     });
@@ -274,7 +226,7 @@ router.delete('/:roomId', authMiddleware, isPodOwner, async (req: AuthenticatedR
 router.get('/:roomId/messages', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { roomId } = req.params;
-    const { limit = '50', before } = req.query;
+    const { before } = req.query;
 
     // Check if room exists
     const room = await prisma.room.findUnique({
@@ -293,69 +245,278 @@ router.get('/:roomId/messages', authMiddleware, async (req: AuthenticatedRequest
       return res.status(404).json({ error: 'Room not found' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: room.pod.id,
-          userId: req.user!.id
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(room.pod.id, req.user!.id);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'You must be a member of this pod to view messages' });
+    }
+
+    // `before` (a message id) is still accepted in place of a cursor
+    const pagination = getPagination(
+      typeof before === 'string' && !req.query.cursor ? { ...req.query, cursor: encodeCursor(before) } : req.query,
+      MESSAGE_PAGE_LIMIT
+    );
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const messages = await prisma.message.findMany({
+      where: { roomId, hiddenAt: null, parentId: null },
+      include: threadSummaryInclude,
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(messages, pagination.limit);
+
+    const withSummaries = await withReactions(items.reverse().map(toThreadRootResponse), req.user!.id);
+
+    res.json({ messages: withSummaries, nextCursor }); // Reverse to show oldest first
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+// Mark a room as read, up to `messageId` or entirely
+router.post('/:roomId/read',
+  authMiddleware,
+  [
+    body('messageId').optional().isString()
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const result = await markRoomRead(req.params.roomId, req.user!.id, req.body.messageId);
+
+      if ('error' in result) {
+        const { status, ...error } = result;
+        return res.status(status).json(error);
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Mark room read error:', error);
+      res.status(500).json({ error: 'Failed to mark room as read' });
+    }
+  }
+);
+
+// Edit a message (author only)
+router.patch('/:roomId/messages/:messageId',
+  authMiddleware,
+  [
+    body('content').isString().trim().notEmpty().withMessage('Message content is required')
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { roomId, messageId } = req.params;
+
+      const result = await editRoomMessage(
+        roomId,
+        messageId,
+        { id: req.user!.id, name: req.user!.fullName || req.user!.username },
+        req.body.content
+      );
+
+      if ('error' in result) {
+        const { status, ...error } = result;
+        return res.status(status).json(error);
+      }
+
+      res.json({ message: result.message });
+    } catch (error) {
+      console.error('Edit message error:', error);
+      res.status(500).json({ error: 'Failed to edit message' });
+    }
+  }
+);
+
+// Delete a message, leaving a tombstone (author or moderate)
+router.delete('/:roomId/messages/:messageId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { roomId, messageId } = req.params;
+
+    const result = await deleteRoomMessage(roomId, messageId, req.user!.id);
+
+    if ('error' in result) {
+      const { status, ...error } = result;
+      return res.status(status).json(error);
+    }
+
+    res.json({ message: 'Message deleted successfully' });
+  } catch (error) {
+    console.error('Delete message error:', error);
+    res.status(500).json({ error: 'Failed to delete message' });
+  }
+});
+
+// Get a thread: its root message and replies, oldest first (with pagination)
+router.get('/:roomId/messages/:messageId/thread', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { roomId, messageId } = req.params;
+
+    const root = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        ...threadSummaryInclude,
+        room: {
+          select: { podId: true }
         }
       }
     });
 
-    const isOwner = room.pod.ownerId === req.user!.id;
+    if (!root || root.roomId !== roomId || !root.room || root.parentId || root.hiddenAt) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    const { hasAccess } = await checkPodAccess(root.room.podId, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view messages' });
     }
 
-    const whereClause: any = {
-      roomId
-    };
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
 
-    // If 'before' is provided, get messages before that message's createdAt
-    if (before && typeof before === 'string') {
-      const beforeMessage = await prisma.message.findUnique({
-        where: { id: before },
-        select: { createdAt: true }
-      });
+    const [replies, following] = await Promise.all([
+      prisma.message.findMany({
+        where: { parentId: messageId, hiddenAt: null },
+        include: roomMessageInclude,
+        orderBy: [
+          { createdAt: 'asc' },
+          { id: 'asc' }
+        ],
+        ...pagination.args
+      }),
+      prisma.messageThreadFollower.findUnique({
+        where: { messageId_userId: { messageId, userId: req.user!.id } },
+        select: { id: true }
+      })
+    ]);
+
+    const { items, nextCursor } = paginate(replies, pagination.limit);
+    const { room, ...thread } = root;
+
+    const [message, ...replyMessages] = await withReactions(
+      [toThreadRootResponse(thread), ...items.map(toRoomMessageResponse)],
+      req.user!.id
+    );
+
+    res.json({
+      message,
+      replies: replyMessages,
+      isFollowing: !!following,
+      nextCursor
+    });
+  } catch (error) {
+    console.error('Get thread error:', error);
+    res.status(500).json({ error: 'Failed to fetch thread' });
+  }
+});
+
+// Follow a thread to get its replies live
+router.post('/:roomId/messages/:messageId/thread/follow', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { roomId, messageId } = req.params;
 
-      if (beforeMessage) {
-        whereClause.createdAt = {
-          lt: beforeMessage.createdAt
-        };
+    const root = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        room: {
+          select: { podId: true }
+        }
       }
+    });
+
+    if (!root || root.roomId !== roomId || !root.room || root.parentId || root.hiddenAt || root.deletedAt) {
+      return res.status(404).json({ error: 'Thread not found' });
     }
 
-    const messages = await prisma.message.findMany({
-      where: whereClause,
+    const { hasAccess } = await checkPodAccess(root.room.podId, req.user!.id);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'You must be a member of this pod to follow threads' });
+    }
+
+    await followThread(messageId, req.user!.id);
+
+    res.json({ message: 'Following thread' });
+  } catch (error) {
+    console.error('Follow thread error:', error);
+    res.status(500).json({ error: 'Failed to follow thread' });
+  }
+});
+
+// Stop following a thread
+router.delete('/:roomId/messages/:messageId/thread/follow', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+
+    await prisma.messageThreadFollower.deleteMany({
+      where: { messageId, userId: req.user!.id }
+    });
+
+    res.json({ message: 'Unfollowed thread' });
+  } catch (error) {
+    console.error('Unfollow thread error:', error);
+    res.status(500).json({ error: 'Failed to unfollow thread' });
+  }
+});
+
+// Get the edit history of a message, oldest first (author or moderate)
+router.get('/:roomId/messages/:messageId/edits', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { roomId, messageId } = req.params;
+
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
       include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            fullName: true,
-            profilePhoto: true
-          }
+        room: {
+          select: { podId: true }
         }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      },
-      take: parseInt(typeof limit === 'string' ? limit : '50')
+      }
+    });
+
+    if (!message || message.roomId !== roomId || !message.room) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    if (message.senderId !== req.user!.id && !(await hasPodPermission(message.room.podId, req.user!.id, 'moderate'))) {
+      return res.status(403).json({ error: 'You do not have permission to view the history of this message' });
+    }
+
+    const edits = await prisma.messageEdit.findMany({
+      where: { messageId },
+      orderBy: { createdAt: 'asc' }
     });
 
-    res.json({ messages: messages.reverse() }); // Reverse to show oldest first
+    res.json({ edits, current: message.content });
   } catch (error) {
-    console.error('Get messages error:', error);
-    res.status(500).json({ error: 'Failed to fetch messages' });
+    console.error('Get message edits error:', error);
+    res.status(500).json({ error: 'Failed to fetch message history' });
   }
 });
 
-// Add member to a private room (owner only)
+// Add member to a private room (manage_rooms)
 router.post('/:roomId/members',
   authMiddleware,
-  isPodOwner,
+  requirePodPermission('manage_rooms', 'room'),
   [
     body('userId').notEmpty().withMessage('User ID is required')
   ],
@@ -369,25 +530,6 @@ router.post('/:roomId/members',
       const { roomId } = req.params;
       const { userId } = req.body;
 
-      const room = await prisma.room.findUnique({
-        where: { id: roomId },
-        include: {
-          pod: {
-            select: {
-              ownerId: true
-            }
-          }
-        }
-      });
-
-      if (!room) {
-        return res.status(404).json({ error: 'Room not found' });
-      }
-
-      if (room.pod.ownerId !== req.user!.id) {
-        return res.status(403).json({ error: 'You are not the owner of this pod' });
-      }
-
       // Check if already a member
       const existingMember = await prisma.roomMember.findUnique({
         where: {
@@ -417,30 +559,11 @@ router.post('/:roomId/members',
   }
 );
 
-// Remove member from room (owner only)
-router.delete('/:roomId/members/:userId', authMiddleware, isPodOwner, async (req: AuthenticatedRequest, res: Response) => {
+// Remove member from room (manage_rooms)
+router.delete('/:roomId/members/:userId', authMiddleware, requirePodPermission('manage_rooms', 'room'), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { roomId, userId } = req.params;
 
-    const room = await prisma.room.findUnique({
-      where: { id: roomId },
-      include: {
-        pod: {
-          select: {
-            ownerId: true
-          }
-        }
-      }
-    });
-
-    if (!room) {
-      return res.status(404).json({ error: 'Room not found' });
-    }
-
-    if (room.pod.ownerId !== req.user!.id) {
-      return res.status(403).json({ error: 'You are not the owner of this pod' });
-    }
-
     await prisma.roomMember.delete({
       where: {
         roomId_userId: {
@@ -482,19 +605,10 @@ router.get('/:roomId/questions', authMiddleware, async (req: AuthenticatedReques
       return res.status(400).json({ error: 'This room is not a Q&A room' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: room.pod.id,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = room.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(room.pod.id, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view questions' });
     }
 
@@ -581,22 +695,18 @@ router.post('/:roomId/questions',
         return res.status(400).json({ error: 'This room is not a Q&A room' });
       }
 
-      // Check if user is a member or owner of the pod
-      const isMember = await prisma.podMember.findUnique({
-        where: {
-          podId_userId: {
-            podId: room.pod.id,
-            userId: req.user!.id
-          }
-        }
-      });
-
-      const isOwner = room.pod.ownerId === req.user!.id;
+      // Check if user is a member, owner or co-owner of the pod
+      const { hasAccess } = await checkPodAccess(room.pod.id, req.user!.id);
 
-      if (!isMember && !isOwner) {
+      if (!hasAccess) {
         return res.status(403).json({ error: 'You must be a member of this pod to ask questions' });
       }
 
+      const mute = await getActivePodMute(room.pod.id, req.user!.id);
+      if (mute) {
+        return res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+      }
+
       const question = await prisma.question.create({
         data: {
           content,
@@ -652,11 +762,10 @@ router.delete('/:roomId/questions/:questionId', authMiddleware, async (req: Auth
       return res.status(404).json({ error: 'Question not found' });
     }
 
-    // Check if user is the author or the pod owner
+    // Check if user is the author or a pod moderator
     const isAuthor = question.authorId === req.user!.id;
-    const isPodOwner = question.room.pod.ownerId === req.user!.id;
 
-    if (!isAuthor && !isPodOwner) {
+    if (!isAuthor && !(await hasPodPermission(question.room.podId, req.user!.id, 'moderate'))) {
       return res.status(403).json({ error: 'You do not have permission to delete this question' });
     }
 
@@ -696,19 +805,10 @@ router.get('/:roomId/questions/:questionId/answers', authMiddleware, async (req:
       return res.status(404).json({ error: 'Question not found' });
     }
 
-    // Check if user is a member or owner of the pod
-    const isMember = await prisma.podMember.findUnique({
-      where: {
-        podId_userId: {
-          podId: question.room.pod.id,
-          userId: req.user!.id
-        }
-      }
-    });
-
-    const isOwner = question.room.pod.ownerId === req.user!.id;
+    // Check if user is a member, owner or co-owner of the pod
+    const { hasAccess } = await checkPodAccess(question.room.pod.id, req.user!.id);
 
-    if (!isMember && !isOwner) {
+    if (!hasAccess) {
       return res.status(403).json({ error: 'You must be a member of this pod to view answers' });
     }
 
@@ -776,22 +876,18 @@ router.post('/:roomId/questions/:questionId/answers',
         return res.status(404).json({ error: 'Question not found' });
       }
 
-      // Check if user is a member or owner of the pod
-      const isMember = await prisma.podMember.findUnique({
-        where: {
-          podId_userId: {
-            podId: question.room.pod.id,
-            userId: req.user!.id
-          }
-        }
-      });
+      // Check if user is a member, owner or co-owner of the pod
+      const { hasAccess } = await checkPodAccess(question.room.pod.id, req.user!.id);
 
-      const isOwner = question.room.pod.ownerId === req.user!.id;
-
-      if (!isMember && !isOwner) {
+      if (!hasAccess) {
         return res.status(403).json({ error: 'You must be a member of this pod to answer questions' });
       }
 
+      const mute = await getActivePodMute(question.room.pod.id, req.user!.id);
+      if (mute) {
+        return res.status(403).json({ error: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+      }
+
       const answer = await prisma.answer.create({
         data: {
           content,
@@ -850,11 +946,10 @@ router.delete('/:roomId/questions/:questionId/answers/:answerId', authMiddleware
       return res.status(404).json({ error: 'Answer not found' });
     }
 
-    // Check if user is the author or the pod owner
+    // Check if user is the author or a pod moderator
     const isAuthor = answer.authorId === req.user!.id;
-    const isPodOwner = answer.question.room.pod.ownerId === req.user!.id;
 
-    if (!isAuthor && !isPodOwner) {
+    if (!isAuthor && !(await hasPodPermission(answer.question.room.podId, req.user!.id, 'moderate'))) {
       return res.status(403).json({ error: 'You do not have permission to delete this answer' });
     }
 
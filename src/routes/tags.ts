@@ -0,0 +1,171 @@
+import express, { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import prisma from '../utils/prisma.js';
+import { accessiblePodsWhere } from '../utils/permissions.js';
+import { getPagination, paginate } from '../utils/pagination.js';
+import { normalizeTag } from '../utils/tags.js';
+
+const router = express.Router();
+
+const TRENDING_WINDOWS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30
+};
+
+// Get trending tags over a time window
+router.get('/trending', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const window = (req.query.window as string) || 'week';
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+    if (!TRENDING_WINDOWS[window]) {
+      res.status(400).json({ error: `Window must be one of: ${Object.keys(TRENDING_WINDOWS).join(', ')}` });
+      return;
+    }
+
+    const since = new Date(Date.now() - TRENDING_WINDOWS[window] * 24 * 60 * 60 * 1000);
+
+    // Only count posts the viewer could open, so private pods don't leak their topics.
+    // The window applies to the post's publish time (its createdAt), not when the tag row
+    // was written, so backfilled tags of old posts do not trend.
+    const counts = await prisma.postTag.groupBy({
+      by: ['tagId'],
+      where: {
+        post: {
+          status: 'PUBLISHED',
+          hiddenAt: null,
+          createdAt: { gte: since },
+          pod: accessiblePodsWhere(req.user!.id)
+        }
+      },
+      _count: { tagId: true },
+      orderBy: { _count: { tagId: 'desc' } },
+      take: limit
+    });
+
+    const tags = await prisma.tag.findMany({
+      where: { id: { in: counts.map(c => c.tagId) } },
+      select: { id: true, name: true }
+    });
+    const namesById = new Map(tags.map(tag => [tag.id, tag.name]));
+
+    res.json({
+      window,
+      tags: counts.map(c => ({
+        tag: namesById.get(c.tagId),
+        postCount: c._count.tagId
+      }))
+    });
+  } catch (error) {
+    console.error('Get trending tags error:', error);
+    res.status(500).json({ error: 'Failed to fetch trending tags' });
+  }
+});
+
+// Get posts with a tag from pods the viewer can access
+router.get('/:tag/posts', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const where: Prisma.PostWhereInput = {
+      tags: { some: { tag: { name: tag } } },
+      status: 'PUBLISHED',
+      hiddenAt: null,
+      pod: accessiblePodsWhere(req.user!.id)
+    };
+
+    const posts = await prisma.post.findMany({
+      where,
+      include: {
+        author: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            profilePhoto: true
+          }
+        },
+        pod: {
+          select: {
+            id: true,
+            name: true,
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(posts, pagination.limit);
+
+    res.json({ tag, posts: items, nextCursor });
+  } catch (error) {
+    console.error('Get tag posts error:', error);
+    res.status(500).json({ error: 'Failed to fetch posts' });
+  }
+});
+
+// Get approved pods with a tag in their focus areas
+router.get('/:tag/pods', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+
+    const pagination = getPagination(req.query);
+    if (!pagination) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+
+    const pods = await prisma.pod.findMany({
+      where: {
+        tags: { some: { tag: { name: tag } } },
+        isApproved: true,
+        OR: [
+          { isPublic: true },
+          accessiblePodsWhere(req.user!.id)
+        ]
+      },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            username: true,
+            fullName: true,
+            profilePhoto: true
+          }
+        },
+        _count: {
+          select: {
+            members: true,
+            posts: true
+          }
+        }
+      },
+      orderBy: [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ],
+      ...pagination.args
+    });
+
+    const { items, nextCursor } = paginate(pods, pagination.limit);
+
+    res.json({ tag, pods: items, nextCursor });
+  } catch (error) {
+    console.error('Get tag pods error:', error);
+    res.status(500).json({ error: 'Failed to fetch pods' });
+  }
+});
+
+export default router;
@@ -1,11 +1,43 @@
 import express, { Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { body, validationResult } from 'express-validator';
 import prisma from '../utils/prisma.js';
 import { ApiResponse } from '../utils/responses.js';
+import { checkPodAccess, checkChatParticipant, accessiblePodsWhere } from '../utils/permissions.js';
+import { podAudience, chatAudience } from '../utils/mentions.js';
+import { getPresence, MAX_PRESENCE_IDS } from '../utils/presence.js';
 
 const router = express.Router();
 
+// Get the presence of several users (?ids=a,b,c)
+router.get('/presence', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { ids } = req.query;
+
+    const userIds = typeof ids === 'string'
+      ? [...new Set(ids.split(',').map(id => id.trim()).filter(Boolean))]
+      : [];
+
+    if (userIds.length === 0) {
+      res.status(400).json({ error: 'At least one user ID is required' });
+      return;
+    }
+
+    if (userIds.length > MAX_PRESENCE_IDS) {
+      res.status(400).json({ error: `At most ${MAX_PRESENCE_IDS} user IDs can be looked up at once` });
+      return;
+    }
+
+    const presence = await getPresence(req.user!.id, userIds);
+
+    res.json({ presence });
+  } catch (error) {
+    console.error('Get presence error:', error);
+    res.status(500).json({ error: 'Failed to fetch presence' });
+  }
+});
+
 // Get user profile by ID
 router.get('/:userId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -156,6 +188,68 @@ router.get('/search/query', authMiddleware, async (req: AuthenticatedRequest, re
   }
 });
 
+// Suggest users to @mention in a pod or chat
+router.get('/mentions/suggest', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { podId, chatId, q } = req.query;
+
+    if ((typeof podId === 'string') === (typeof chatId === 'string')) {
+      res.status(400).json({ error: 'Either podId or chatId is required' });
+      return;
+    }
+
+    let audience: Prisma.UserWhereInput;
+
+    if (typeof podId === 'string') {
+      const { hasAccess } = await checkPodAccess(podId, req.user!.id);
+      if (!hasAccess) {
+        res.status(403).json({ error: 'You must be a member of this pod' });
+        return;
+      }
+      audience = podAudience(podId);
+    } else {
+      const isParticipant = await checkChatParticipant(chatId as string, req.user!.id);
+      if (!isParticipant) {
+        res.status(403).json({ error: 'You are not a participant of this chat' });
+        return;
+      }
+      audience = chatAudience(chatId as string);
+    }
+
+    const search = typeof q === 'string' ? q.replace(/^@/, '').trim() : '';
+
+    const users = await prisma.user.findMany({
+      where: {
+        AND: [
+          audience,
+          { id: { not: req.user!.id } },
+          ...(search
+            ? [{
+                OR: [
+                  { username: { startsWith: search, mode: 'insensitive' as const } },
+                  { fullName: { contains: search, mode: 'insensitive' as const } }
+                ]
+              }]
+            : [])
+        ]
+      },
+      select: {
+        id: true,
+        username: true,
+        fullName: true,
+        profilePhoto: true
+      },
+      orderBy: { username: 'asc' },
+      take: 10
+    });
+
+    res.json({ users });
+  } catch (error) {
+    console.error('Suggest mentions error:', error);
+    res.status(500).json({ error: 'Failed to suggest users' });
+  }
+});
+
 // Update user profile (with userId parameter)
 router.put('/:userId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -163,7 +257,7 @@ router.put('/:userId', authMiddleware, async (req: AuthenticatedRequest, res: Re
     const updateData = req.body;
 
     // Verify the user is updating their own profile or is an admin
-    if (req.user!.id !== userId && req.user!.role !== 'admin') {
+    if (req.user!.id !== userId && req.user!.role !== 'PLATFORM_ADMIN') {
       res.status(403).json({ error: 'Unauthorized to update this profile' });
       return;
     }
@@ -372,9 +466,14 @@ router.get('/:userId/pods', authMiddleware, async (req: AuthenticatedRequest, re
   try {
     const { userId } = req.params;
 
+    // Private pods are only listed to people who can access them
+    const visiblePods: Prisma.PodWhereInput = userId === req.user!.id
+      ? {}
+      : { OR: [{ isPublic: true }, accessiblePodsWhere(req.user!.id)] };
+
     // Get pods owned by user
     const ownedPods = await prisma.pod.findMany({
-      where: { ownerId: userId },
+      where: { ownerId: userId, ...visiblePods },
       include: {
         owner: {
           select: {
@@ -395,7 +494,7 @@ router.get('/:userId/pods', authMiddleware, async (req: AuthenticatedRequest, re
 
     // Get pods where user is a member
     const memberPods = await prisma.podMember.findMany({
-      where: { userId },
+      where: { userId, pod: visiblePods },
       include: {
         pod: {
           include: {
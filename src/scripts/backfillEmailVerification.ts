@@ -0,0 +1,18 @@
+import prisma from '../utils/prisma.js';
+
+// One-off backfill of User.emailVerifiedAt for accounts created before email verification existed,
+// so they keep creating pods and pitches and keep getting digests
+const run = async () => {
+  const result = await prisma.user.updateMany({
+    where: { emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() }
+  });
+  console.log(`Marked ${result.count} existing account(s) as verified`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill email verification error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
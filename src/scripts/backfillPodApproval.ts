@@ -0,0 +1,17 @@
+import prisma from '../utils/prisma.js';
+
+// One-off backfill of Pod.approvalStatus for pods approved before the review workflow existed
+const run = async () => {
+  const result = await prisma.pod.updateMany({
+    where: { isApproved: true, approvalStatus: { not: 'APPROVED' } },
+    data: { approvalStatus: 'APPROVED' }
+  });
+  console.log(`Marked ${result.count} approved pod(s) as APPROVED`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill pod approval error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
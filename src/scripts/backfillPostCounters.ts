@@ -0,0 +1,15 @@
+import prisma from '../utils/prisma.js';
+import { refreshAllPostCounters } from '../utils/postCounters.js';
+
+// One-off backfill of Post.reactionCount / likeCount / commentCount for existing posts
+const run = async () => {
+  const processed = await refreshAllPostCounters();
+  console.log(`Refreshed counters for ${processed} post(s)`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill post counters error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,43 @@
+import prisma from '../utils/prisma.js';
+import { syncPostTags, syncPodTags } from '../utils/tags.js';
+
+const BATCH_SIZE = 200;
+
+// One-off backfill of post hashtags and pod focus-area tags for existing data
+const run = async () => {
+  let cursor: string | undefined;
+  let posts = 0;
+
+  while (true) {
+    const batch = await prisma.post.findMany({
+      select: { id: true, content: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    for (const post of batch) {
+      await syncPostTags(post.id, post.content);
+    }
+
+    posts += batch.length;
+    if (batch.length < BATCH_SIZE) {
+      break;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+
+  const pods = await prisma.pod.findMany({ select: { id: true, focusAreas: true } });
+  for (const pod of pods) {
+    await syncPodTags(pod.id, pod.focusAreas);
+  }
+
+  console.log(`Tagged ${posts} post(s) and ${pods.length} pod(s)`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill tags error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,7 +2,9 @@ import 'dotenv/config';
 import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import http from 'http';
-import setupSocketIO from './socket.js';
+import { setupSocketIOWithExport } from './socket.js';
+import { startDigestScheduler, stopDigestScheduler } from './jobs/digest.js';
+import { startScheduledPostsScheduler, stopScheduledPostsScheduler } from './jobs/scheduledPosts.js';
 
 // Import routes
 import authRoutes from './routes/auth.js';
@@ -17,13 +19,17 @@ import chatsRoutes from './routes/chats.js';
 import messageRequestsRoutes from './routes/messageRequests.js';
 import callBookingsRoutes from './routes/callBookings.js';
 import notificationsRoutes from './routes/notifications.js';
+import tagsRoutes from './routes/tags.js';
+import pollsRoutes from './routes/polls.js';
+import bookmarksRoutes from './routes/bookmarks.js';
+import reportsRoutes from './routes/reports.js';
 import uploadRoutes from './routes/upload.js';
 
 const app: Express = express();
 const server: http.Server = http.createServer(app);
 
 // Setup Socket.IO
-const io = setupSocketIO(server);
+const io = setupSocketIOWithExport(server);
 
 app.use(cors({
   origin: (origin, callback) => {
@@ -73,6 +79,7 @@ app.get('/health', (req: Request, res: Response) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/pods', podsRoutes);
+app.use('/api/posts/:postId/poll', pollsRoutes);
 app.use('/api/posts', postsRoutes);
 app.use('/api/reactions', reactionsRoutes);
 app.use('/api/rooms', roomsRoutes);
@@ -82,6 +89,9 @@ app.use('/api/chats', chatsRoutes);
 app.use('/api/message-requests', messageRequestsRoutes);
 app.use('/api/call-bookings', callBookingsRoutes);
 app.use('/api/notifications', notificationsRoutes);
+app.use('/api/tags', tagsRoutes);
+app.use('/api/bookmarks', bookmarksRoutes);
+app.use('/api/reports', reportsRoutes);
 app.use('/api/upload', uploadRoutes);
 
 // 404 handler
@@ -117,11 +127,19 @@ server.listen(PORT, () => {
 ║                                                       ║
 ╚═══════════════════════════════════════════════════════╝
   `);
+
+  if (process.env.DIGEST_ENABLED !== 'false') {
+    startDigestScheduler();
+  }
+
+  startScheduledPostsScheduler();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  stopDigestScheduler();
+  stopScheduledPostsScheduler();
   server.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -130,6 +148,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('\nSIGINT signal received: closing HTTP server');
+  stopDigestScheduler();
+  stopScheduledPostsScheduler();
   server.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
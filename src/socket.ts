@@ -2,6 +2,14 @@ import { Server, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import { verifyToken } from './utils/jwt.js';
 import prisma from './utils/prisma.js';
+import { isSessionActive } from './utils/sessions.js';
+import { syncMentions, podAudience, chatAudience } from './utils/mentions.js';
+import { checkPodAccess } from './utils/permissions.js';
+import { getActivePodMute } from './utils/podMembership.js';
+import { toRoomMessageResponse, editRoomMessage, deleteRoomMessage, publishThreadReply } from './utils/roomMessages.js';
+import { addMessageReaction, removeMessageReaction } from './utils/messageReactions.js';
+import { markRoomRead, markChatRead } from './utils/readMarkers.js';
+import { trackSocketConnected, trackSocketDisconnected, setSocketAway, trackRoomJoined, trackRoomLeft, getSocketRooms, isInRoomElsewhere } from './utils/presence.js';
 
 interface SocketUser {
   id: string;
@@ -13,7 +21,7 @@ interface SocketUser {
 
 interface AuthenticatedSocket extends Socket {
   user?: SocketUser;
-  currentRoom?: string;
+  sessionId?: string;
 }
 
 const setupSocketIO = (server: HttpServer): Server => {
@@ -56,10 +64,14 @@ const setupSocketIO = (server: HttpServer): Server => {
       }
 
       const decoded = verifyToken(token);
-      if (!decoded) {
+      if (!decoded || !decoded.sessionId) {
         return next(new Error('Authentication error: Invalid token'));
       }
 
+      if (!(await isSessionActive(decoded.sessionId, decoded.userId))) {
+        return next(new Error('Authentication error: Session revoked'));
+      }
+
       // Get user from database
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
@@ -71,6 +83,7 @@ const setupSocketIO = (server: HttpServer): Server => {
       }
 
       socket.user = user;
+      socket.sessionId = decoded.sessionId;
       next();
     } catch (error) {
       console.error('Socket authentication error:', error);
@@ -104,39 +117,33 @@ const setupSocketIO = (server: HttpServer): Server => {
           return;
         }
 
-        // Check if user is a member or owner of the pod
-        const isMember = await prisma.podMember.findUnique({
-          where: {
-            podId_userId: {
-              podId: room.pod.id,
-              userId: socket.user!.id
-            }
-          }
-        });
-
-        const isOwner = room.pod.ownerId === socket.user!.id;
+        // Check if user is a member, owner or co-owner of the pod
+        const { hasAccess } = await checkPodAccess(room.pod.id, socket.user!.id);
 
-        if (!isMember && !isOwner) {
+        if (!hasAccess) {
           socket.emit('error', { message: 'You must be a member of this pod to join this room' });
           return;
         }
 
         // Join the socket room
         socket.join(roomId);
-        socket.currentRoom = roomId;
+        const alreadyInRoom = isInRoomElsewhere(socket.user!.id, roomId, socket.id);
+        trackRoomJoined(socket.user!.id, socket.id, roomId);
 
         console.log(`${socket.user!.username} joined room: ${roomId}`);
 
-        // Notify others in the room
-        socket.to(roomId).emit('user-joined', {
-          user: {
-            id: socket.user!.id,
-            username: socket.user!.username,
-            fullName: socket.user!.fullName,
-            avatar: socket.user!.avatar
-          },
-          timestamp: new Date()
-        });
+        // Notify others in the room, unless the user is already there from another tab or device
+        if (!alreadyInRoom) {
+          socket.to(roomId).emit('user-joined', {
+            user: {
+              id: socket.user!.id,
+              username: socket.user!.username,
+              fullName: socket.user!.fullName,
+              avatar: socket.user!.avatar
+            },
+            timestamp: new Date()
+          });
+        }
 
         // Send confirmation to the user
         socket.emit('room-joined', {
@@ -154,20 +161,22 @@ const setupSocketIO = (server: HttpServer): Server => {
       try {
         const { roomId } = data;
 
-        if (socket.currentRoom === roomId) {
+        if (socket.rooms.has(roomId)) {
           socket.leave(roomId);
-          socket.currentRoom = undefined;
+          trackRoomLeft(socket.user!.id, socket.id, roomId);
 
           console.log(`${socket.user!.username} left room: ${roomId}`);
 
-          // Notify others in the room
-          socket.to(roomId).emit('user-left', {
-            user: {
-              id: socket.user!.id,
-              username: socket.user!.username
-            },
-            timestamp: new Date()
-          });
+          // Notify others in the room once the user's last tab or device has left
+          if (!isInRoomElsewhere(socket.user!.id, roomId, socket.id)) {
+            socket.to(roomId).emit('user-left', {
+              user: {
+                id: socket.user!.id,
+                username: socket.user!.username
+              },
+              timestamp: new Date()
+            });
+          }
 
           socket.emit('room-left', {
             roomId,
@@ -181,9 +190,9 @@ const setupSocketIO = (server: HttpServer): Server => {
     });
 
     // Send a message
-    socket.on('send-message', async (data: { roomId: string; content: string }) => {
+    socket.on('send-message', async (data: { roomId: string; content: string; parentId?: string }) => {
       try {
-        const { roomId, content } = data;
+        const { roomId, content, parentId } = data;
 
         if (!content || !content.trim()) {
           socket.emit('error', { message: 'Message content is required' });
@@ -208,28 +217,43 @@ const setupSocketIO = (server: HttpServer): Server => {
           return;
         }
 
-        // Check if user is a member or owner of the pod
-        const isMember = await prisma.podMember.findUnique({
-          where: {
-            podId_userId: {
-              podId: room.pod.id,
-              userId: socket.user!.id
-            }
-          }
-        });
-
-        const isOwner = room.pod.ownerId === socket.user!.id;
+        // Check if user is a member, owner or co-owner of the pod
+        const { hasAccess } = await checkPodAccess(room.pod.id, socket.user!.id);
 
-        if (!isMember && !isOwner) {
+        if (!hasAccess) {
           socket.emit('error', { message: 'You must be a member of this pod to send messages' });
           return;
         }
 
+        const mute = await getActivePodMute(room.pod.id, socket.user!.id);
+        if (mute) {
+          socket.emit('error', { message: 'You are muted in this pod', mutedUntil: mute.expiresAt });
+          return;
+        }
+
+        let threadId: string | null = null;
+
+        if (parentId) {
+          const parent = await prisma.message.findUnique({
+            where: { id: parentId },
+            select: { roomId: true, parentId: true, hiddenAt: true, deletedAt: true }
+          });
+
+          if (!parent || parent.roomId !== roomId || parent.hiddenAt || parent.deletedAt) {
+            socket.emit('error', { message: 'The message you are replying to was not found' });
+            return;
+          }
+
+          // Threads are one level deep; replying to a reply continues its thread
+          threadId = parent.parentId ?? parentId;
+        }
+
         // Save message to database
         const message = await prisma.message.create({
           data: {
             content: content.trim(),
             roomId,
+            parentId: threadId,
             senderId: socket.user!.id
           },
           include: {
@@ -250,20 +274,118 @@ const setupSocketIO = (server: HttpServer): Server => {
 
         console.log(`Message from ${socket.user!.username} in room ${roomId}`);
 
-        // Broadcast message to all users in the room (including sender)
-        io.to(roomId).emit('new-message', message);
+        if (threadId) {
+          // Thread replies only go to the thread's followers
+          await publishThreadReply(threadId, room.pod.id, toRoomMessageResponse(message));
+        } else {
+          // Broadcast message to all users in the room (including sender)
+          io.to(roomId).emit('new-message', toRoomMessageResponse(message));
+        }
+
+        await syncMentions(
+          { messageId: message.id },
+          message.content,
+          { id: socket.user!.id, name: socket.user!.fullName || socket.user!.username },
+          podAudience(room.pod.id),
+          { message: `mentioned you in ${room.name}`, linkedId: roomId, context: { podId: room.pod.id, roomId } }
+        );
       } catch (error) {
         console.error('Send message error:', error);
         socket.emit('error', { message: 'Failed to send message' });
       }
     });
 
+    // Edit a message (author only); the room gets `message-updated`
+    socket.on('edit-message', async (data: { roomId: string; messageId: string; content: string }) => {
+      try {
+        const { roomId, messageId, content } = data;
+
+        const result = await editRoomMessage(
+          roomId,
+          messageId,
+          { id: socket.user!.id, name: socket.user!.fullName || socket.user!.username },
+          content
+        );
+
+        if ('error' in result) {
+          socket.emit('error', { message: result.error, ...(result.mutedUntil && { mutedUntil: result.mutedUntil }) });
+        }
+      } catch (error) {
+        console.error('Edit message error:', error);
+        socket.emit('error', { message: 'Failed to edit message' });
+      }
+    });
+
+    // Delete a message (author or moderator); the room gets `message-deleted`
+    socket.on('delete-message', async (data: { roomId: string; messageId: string }) => {
+      try {
+        const { roomId, messageId } = data;
+
+        const result = await deleteRoomMessage(roomId, messageId, socket.user!.id);
+
+        if ('error' in result) {
+          socket.emit('error', { message: result.error });
+        }
+      } catch (error) {
+        console.error('Delete message error:', error);
+        socket.emit('error', { message: 'Failed to delete message' });
+      }
+    });
+
+    // React to a room or DM message; everyone who can see it gets `message-reactions-updated`
+    socket.on('add-reaction', async (data: { messageId: string; emoji: string }) => {
+      try {
+        const error = await addMessageReaction(data.messageId, socket.user!.id, data.emoji);
+        if (error) {
+          socket.emit('error', { message: error.error });
+        }
+      } catch (error) {
+        console.error('Add reaction error:', error);
+        socket.emit('error', { message: 'Failed to add reaction' });
+      }
+    });
+
+    socket.on('remove-reaction', async (data: { messageId: string; emoji: string }) => {
+      try {
+        const error = await removeMessageReaction(data.messageId, socket.user!.id, data.emoji);
+        if (error) {
+          socket.emit('error', { message: error.error });
+        }
+      } catch (error) {
+        console.error('Remove reaction error:', error);
+        socket.emit('error', { message: 'Failed to remove reaction' });
+      }
+    });
+
+    // Mark a room or chat as read, up to `messageId` or entirely
+    socket.on('mark-read', async (data: { roomId?: string; chatId?: string; messageId?: string }) => {
+      try {
+        const { roomId, chatId, messageId } = data;
+
+        if (!roomId && !chatId) {
+          socket.emit('error', { message: 'Room ID or chat ID is required' });
+          return;
+        }
+
+        const result = roomId
+          ? await markRoomRead(roomId, socket.user!.id, messageId)
+          : await markChatRead(chatId!, socket.user!.id, messageId);
+
+        if ('error' in result) {
+          socket.emit('error', { message: result.error });
+        }
+      } catch (error) {
+        console.error('Mark read error:', error);
+        socket.emit('error', { message: 'Failed to mark as read' });
+      }
+    });
+
     // Typing indicator
     socket.on('typing-start', (data: { roomId: string }) => {
       try {
         const { roomId } = data;
         
-        if (socket.currentRoom === roomId) {
+        if (socket.rooms.has(roomId)) {
           socket.to(roomId).emit('user-typing', {
             user: {
               id: socket.user!.id,
@@ -281,7 +403,7 @@ const setupSocketIO = (server: HttpServer): Server => {
       try {
         const { roomId } = data;
         
-        if (socket.currentRoom === roomId) {
+        if (socket.rooms.has(roomId)) {
           socket.to(roomId).emit('user-stopped-typing', {
             user: {
               id: socket.user!.id,
@@ -295,6 +417,42 @@ const setupSocketIO = (server: HttpServer): Server => {
       }
     });
 
+    // Watch a post for live updates (e.g. poll results)
+    socket.on('watch-post', async (data: { postId: string }) => {
+      try {
+        const { postId } = data;
+
+        const post = await prisma.post.findUnique({
+          where: { id: postId },
+          select: { podId: true, status: true, hiddenAt: true }
+        });
+
+        if (!post || post.status !== 'PUBLISHED' || post.hiddenAt) {
+          socket.emit('error', { message: 'Post not found' });
+          return;
+        }
+
+        const { hasAccess } = await checkPodAccess(post.podId, socket.user!.id);
+        if (!hasAccess) {
+          socket.emit('error', { message: 'You must be a member of this pod to watch this post' });
+          return;
+        }
+
+        socket.join(`post:${postId}`);
+      } catch (error) {
+        console.error('Watch post error:', error);
+        socket.emit('error', { message: 'Failed to watch post' });
+      }
+    });
+
+    socket.on('unwatch-post', (data: { postId: string }) => {
+      try {
+        socket.leave(`post:${data.postId}`);
+      } catch (error) {
+        console.error('Unwatch post error:', error);
+      }
+    });
+
     // Join a chat (DM)
     socket.on('join-chat', async (data: { chatId: string }) => {
       try {
@@ -393,6 +551,14 @@ const setupSocketIO = (server: HttpServer): Server => {
 
         // Broadcast message to all users in the chat
         io.to(`chat:${chatId}`).emit('new-dm', message);
+
+        await syncMentions(
+          { messageId: message.id },
+          message.content,
+          { id: socket.user!.id, name: socket.user!.fullName || socket.user!.username },
+          chatAudience(chatId),
+          { message: 'mentioned you in a message', linkedId: chatId, context: { chatId } }
+        );
       } catch (error) {
         console.error('Send DM error:', error);
         socket.emit('error', { message: 'Failed to send message' });
@@ -448,18 +614,51 @@ const setupSocketIO = (server: HttpServer): Server => {
     // Auto-join user's notification channel on connection
     socket.join(`user:${socket.user!.id}`);
 
+    // Track the session so its sockets can be disconnected when it is revoked
+    socket.join(`session:${socket.sessionId}`);
+
+    // Every socket counts towards the user's presence
+    trackSocketConnected(socket.user!.id, socket.id).catch(error => {
+      console.error('Presence connect error:', error);
+    });
+
+    // Mark this tab or device as idle or active again
+    socket.on('set-presence', async (data: { status: 'online' | 'away' }) => {
+      try {
+        if (data?.status !== 'online' && data?.status !== 'away') {
+          socket.emit('error', { message: 'Status must be online or away' });
+          return;
+        }
+
+        await setSocketAway(socket.user!.id, socket.id, data.status === 'away');
+      } catch (error) {
+        console.error('Set presence error:', error);
+        socket.emit('error', { message: 'Failed to update presence' });
+      }
+    });
+
     // Handle disconnect
-    socket.on('disconnect', () => {
+    socket.on('disconnect', async () => {
       console.log(`User disconnected: ${socket.user?.username} (${socket.user?.id})`);
 
-      if (socket.currentRoom) {
-        socket.to(socket.currentRoom).emit('user-left', {
-          user: {
-            id: socket.user!.id,
-            username: socket.user!.username
-          },
-          timestamp: new Date()
-        });
+      try {
+        const userId = socket.user!.id;
+
+        for (const roomId of getSocketRooms(userId, socket.id)) {
+          if (!isInRoomElsewhere(userId, roomId, socket.id)) {
+            io.to(roomId).emit('user-left', {
+              user: {
+                id: userId,
+                username: socket.user!.username
+              },
+              timestamp: new Date()
+            });
+          }
+        }
+
+        await trackSocketDisconnected(userId, socket.id);
+      } catch (error) {
+        console.error('Presence disconnect error:', error);
       }
     });
   });
@@ -0,0 +1,81 @@
+import prisma from './prisma.js';
+
+export interface RankablePost {
+  id: string;
+  podId: string;
+  type: 'OWNER_UPDATE' | 'MEMBER_UPDATE';
+  isOwnerPost: boolean;
+  reactionCount: number;
+  commentCount: number;
+  createdAt: Date;
+}
+
+// Only posts from this window are considered for the ranked feed
+export const RANKED_WINDOW_DAYS = 14;
+// Upper bound on how many recent posts are scored per request
+export const RANKED_CANDIDATE_LIMIT = 500;
+
+const RECENCY_HALF_LIFE_HOURS = 24;
+const VELOCITY_WEIGHT = 0.6;
+const OWNER_UPDATE_BOOST = 0.5;
+const AFFINITY_WEIGHT = 0.3;
+const AFFINITY_WINDOW_DAYS = 30;
+
+/**
+ * Count the viewer's recent reactions and comments per pod
+ */
+export const getPodAffinity = async (userId: string, podIds: string[]): Promise<Map<string, number>> => {
+  const since = new Date(Date.now() - AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const postFilter = { podId: { in: podIds } };
+
+  const [reactions, comments] = await Promise.all([
+    prisma.reaction.findMany({
+      where: { userId, createdAt: { gte: since }, post: postFilter },
+      select: { post: { select: { podId: true } } },
+      take: 1000
+    }),
+    prisma.comment.findMany({
+      where: { authorId: userId, createdAt: { gte: since }, post: postFilter },
+      select: { post: { select: { podId: true } } },
+      take: 1000
+    })
+  ]);
+
+  const affinity = new Map<string, number>();
+  for (const { post } of [...reactions, ...comments]) {
+    affinity.set(post.podId, (affinity.get(post.podId) || 0) + 1);
+  }
+
+  return affinity;
+};
+
+/**
+ * Score a post for the ranked feed.
+ *
+ * Engagement velocity, owner updates and pod affinity raise the base score,
+ * which then decays with the age of the post.
+ */
+export const scorePost = (post: RankablePost, affinity: Map<string, number>, now: Date = new Date()): number => {
+  const ageHours = Math.max(0, (now.getTime() - post.createdAt.getTime()) / (60 * 60 * 1000));
+
+  const recency = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  const velocity = (post.reactionCount + 2 * post.commentCount) / (ageHours + 2);
+  const isOwnerUpdate = post.isOwnerPost || post.type === 'OWNER_UPDATE';
+
+  const base = 1 +
+    VELOCITY_WEIGHT * Math.log1p(velocity) +
+    (isOwnerUpdate ? OWNER_UPDATE_BOOST : 0) +
+    AFFINITY_WEIGHT * Math.log1p(affinity.get(post.podId) || 0);
+
+  return base * recency;
+};
+
+/**
+ * Order posts by score, newest first on ties
+ */
+export const rankPosts = <T extends RankablePost>(posts: T[], affinity: Map<string, number>, now: Date = new Date()): T[] => {
+  return posts
+    .map(post => ({ post, score: scorePost(post, affinity, now) }))
+    .sort((a, b) => b.score - a.score || b.post.createdAt.getTime() - a.post.createdAt.getTime())
+    .map(({ post }) => post);
+};
@@ -1,15 +1,19 @@
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
 
 interface JwtPayload {
   userId: string;
   role: string;
+  sessionId?: string;
 }
 
-export const generateToken = (userId: string, role: string): string => {
+// Access tokens are short-lived; sessions are kept alive with rotating refresh tokens
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.ACCESS_TOKEN_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+
+export const generateAccessToken = (userId: string, role: string, sessionId: string): string => {
   return jwt.sign(
-    { userId, role },
+    { userId, role, sessionId },
     process.env.JWT_SECRET as string,
-    { expiresIn: '30d' }
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
   );
 };
 
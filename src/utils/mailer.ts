@@ -0,0 +1,104 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Zubix Pod <no-reply@zoobalo.com>';
+
+/**
+ * Escape user-provided text for the HTML version of an email
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Sends mail through an SMTP server (production)
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+/**
+ * Writes each mail as a JSON file (local development and tests).
+ * Logs to the console instead when no output directory is configured.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private outputDir?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const mail = { from: MAIL_FROM, ...message, sentAt: new Date().toISOString() };
+
+    if (!this.outputDir) {
+      console.log(`[mail] To: ${mail.to} | Subject: ${mail.subject}\n${mail.text}`);
+      return;
+    }
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(path.join(this.outputDir, fileName), JSON.stringify(mail, null, 2));
+  }
+}
+
+let transport: MailTransport;
+
+/**
+ * Get the configured mail transport (MAIL_DRIVER=smtp|file|console, defaults to console)
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    switch (process.env.MAIL_DRIVER) {
+      case 'smtp':
+        transport = new SmtpMailTransport();
+        break;
+      case 'file':
+        transport = new FileMailTransport(process.env.MAIL_OUTPUT_DIR || 'tmp/mail');
+        break;
+      default:
+        transport = new FileMailTransport();
+    }
+  }
+
+  return transport;
+};
+
+/**
+ * Replace the mail transport (e.g. with an in-memory transport in tests)
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send(message);
+};
@@ -0,0 +1,111 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { NotificationContext } from './notificationPreferences.js';
+import { createNotifications } from '../routes/notifications.js';
+
+export type MentionTarget = { postId: string } | { commentId: string } | { messageId: string };
+
+// "@" at the start of the text or after a non-word character, followed by a username
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9._+-]+)/g;
+const MAX_MENTIONS = 20;
+
+/**
+ * Extract the distinct, lowercased usernames mentioned with @username
+ */
+export const extractMentions = (content: string): string[] => {
+  const usernames = new Set<string>();
+  const pattern = new RegExp(MENTION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null && usernames.size < MAX_MENTIONS) {
+    // Drop trailing punctuation such as "@alice." or "@bob-"
+    const username = match[2].replace(/[.+-]+$/, '').toLowerCase();
+    if (username) {
+      usernames.add(username);
+    }
+  }
+
+  return [...usernames];
+};
+
+/**
+ * Users who can see content in a pod (members, owner and co-owners)
+ */
+export const podAudience = (podId: string): Prisma.UserWhereInput => ({
+  OR: [
+    { podMemberships: { some: { podId } } },
+    { ownedPods: { some: { id: podId } } },
+    { coOwnedPods: { some: { id: podId } } }
+  ]
+});
+
+/**
+ * Users who can see messages in a chat
+ */
+export const chatAudience = (chatId: string): Prisma.UserWhereInput => ({
+  chatsParticipated: { some: { chatId } }
+});
+
+/**
+ * Store the mentions in a piece of content and notify newly mentioned users.
+ *
+ * Only users matching `audience` are resolved, so nobody is told about content
+ * they cannot open. On edits, removed mentions are dropped and only users who
+ * were not mentioned before get a notification.
+ */
+export const syncMentions = async (
+  target: MentionTarget,
+  content: string,
+  author: { id: string; name: string },
+  audience: Prisma.UserWhereInput,
+  notification: { message: string; linkedId: string; context: NotificationContext }
+): Promise<void> => {
+  const usernames = extractMentions(content);
+
+  const [mentionedUsers, existing] = await Promise.all([
+    usernames.length > 0
+      ? prisma.user.findMany({
+          where: {
+            AND: [
+              { username: { in: usernames, mode: 'insensitive' } },
+              { id: { not: author.id } },
+              audience
+            ]
+          },
+          select: { id: true }
+        })
+      : Promise.resolve([]),
+    prisma.mention.findMany({
+      where: target,
+      select: { userId: true }
+    })
+  ]);
+
+  const mentionedIds = mentionedUsers.map(u => u.id);
+  const existingIds = new Set(existing.map(m => m.userId));
+  const addedIds = mentionedIds.filter(id => !existingIds.has(id));
+  const removedIds = [...existingIds].filter(id => !mentionedIds.includes(id));
+
+  if (removedIds.length > 0) {
+    await prisma.mention.deleteMany({
+      where: { ...target, userId: { in: removedIds } }
+    });
+  }
+
+  if (addedIds.length === 0) {
+    return;
+  }
+
+  await prisma.mention.createMany({
+    data: addedIds.map(userId => ({ ...target, userId, mentionedById: author.id }))
+  });
+
+  await createNotifications(
+    addedIds,
+    'mention',
+    'You were mentioned',
+    `${author.name} ${notification.message}`,
+    notification.linkedId,
+    notification.context
+  );
+};
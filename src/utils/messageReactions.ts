@@ -0,0 +1,190 @@
+import prisma from './prisma.js';
+import { checkPodAccess, checkChatParticipant } from './permissions.js';
+import { emitMessageChange } from './roomMessages.js';
+import { ioInstance } from '../socket.js';
+
+// Distinct emojis a single message can collect
+export const MAX_EMOJIS_PER_MESSAGE = 20;
+
+// One emoji, including skin tones, flags and ZWJ sequences; no plain text
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u{FE0F}|\u{200D}|[#*0-9]\u{FE0F}?\u{20E3})+$/u;
+
+export const isValidEmoji = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length <= 32 && EMOJI_PATTERN.test(value);
+};
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // Whether the viewer used this emoji
+}
+
+/**
+ * Per-emoji reaction counts for a set of messages, in order of first use
+ */
+export const getReactionSummaries = async (
+  messageIds: string[],
+  viewerId: string
+): Promise<Map<string, ReactionSummary[]>> => {
+  const summaries = new Map<string, ReactionSummary[]>();
+
+  if (messageIds.length === 0) {
+    return summaries;
+  }
+
+  const reactions = await prisma.messageReaction.findMany({
+    where: { messageId: { in: messageIds } },
+    select: { messageId: true, emoji: true, userId: true },
+    orderBy: [
+      { createdAt: 'asc' },
+      { id: 'asc' }
+    ]
+  });
+
+  for (const reaction of reactions) {
+    const list = summaries.get(reaction.messageId) ?? [];
+    let summary = list.find(s => s.emoji === reaction.emoji);
+
+    if (!summary) {
+      summary = { emoji: reaction.emoji, count: 0, reacted: false };
+      list.push(summary);
+    }
+
+    summary.count++;
+    summary.reacted = summary.reacted || reaction.userId === viewerId;
+    summaries.set(reaction.messageId, list);
+  }
+
+  return summaries;
+};
+
+/**
+ * Attach reaction summaries to a page of messages
+ */
+export const withReactions = async <T extends { id: string }>(messages: T[], viewerId: string) => {
+  const summaries = await getReactionSummaries(messages.map(m => m.id), viewerId);
+  return messages.map(message => ({ ...message, reactions: summaries.get(message.id) ?? [] }));
+};
+
+type ReactableMessage = { id: string; roomId: string | null; chatId: string | null; parentId: string | null; podId: string | null };
+
+/**
+ * Load a live room or DM message, checking that the user can see it
+ */
+export const loadReactableMessage = async (
+  messageId: string,
+  userId: string
+): Promise<{ message: ReactableMessage } | { error: string; status: number }> => {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      room: {
+        select: { podId: true }
+      }
+    }
+  });
+
+  if (!message || message.hiddenAt || message.deletedAt) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  if (message.room) {
+    if (!(await checkPodAccess(message.room.podId, userId)).hasAccess) {
+      return { error: 'You must be a member of this pod to react to messages', status: 403 };
+    }
+  } else if (!message.chatId || !(await checkChatParticipant(message.chatId, userId))) {
+    return { error: 'You are not a participant of this chat', status: 403 };
+  }
+
+  const { id, roomId, chatId, parentId } = message;
+  return { message: { id, roomId, chatId, parentId, podId: message.room?.podId ?? null } };
+};
+
+/**
+ * Push a message's fresh reaction counts to everyone who can see it. Viewer-specific
+ * `reacted` flags are left out; clients track their own reactions.
+ */
+const broadcastReactions = async (message: ReactableMessage): Promise<void> => {
+  const groups = await prisma.messageReaction.groupBy({
+    by: ['emoji'],
+    where: { messageId: message.id },
+    _count: { _all: true },
+    _min: { createdAt: true },
+    orderBy: { _min: { createdAt: 'asc' } }
+  });
+
+  const payload = {
+    messageId: message.id,
+    roomId: message.roomId,
+    chatId: message.chatId,
+    reactions: groups.map(group => ({ emoji: group.emoji, count: group._count._all }))
+  };
+
+  if (message.podId) {
+    await emitMessageChange(message, message.podId, 'message-reactions-updated', payload);
+  } else if (message.chatId) {
+    ioInstance?.to(`chat:${message.chatId}`).emit('message-reactions-updated', payload);
+  }
+};
+
+/**
+ * React to a message with an emoji. Adding the same emoji twice is a no-op.
+ */
+export const addMessageReaction = async (
+  messageId: string,
+  userId: string,
+  emoji: string
+): Promise<{ error: string; status: number } | null> => {
+  if (!isValidEmoji(emoji)) {
+    return { error: 'Reaction must be an emoji', status: 400 };
+  }
+
+  const loaded = await loadReactableMessage(messageId, userId);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const existingEmojis = await prisma.messageReaction.findMany({
+    where: { messageId },
+    distinct: ['emoji'],
+    select: { emoji: true }
+  });
+
+  if (!existingEmojis.some(r => r.emoji === emoji) && existingEmojis.length >= MAX_EMOJIS_PER_MESSAGE) {
+    return { error: `A message can have at most ${MAX_EMOJIS_PER_MESSAGE} different reactions`, status: 400 };
+  }
+
+  await prisma.messageReaction.upsert({
+    where: { messageId_userId_emoji: { messageId, userId, emoji } },
+    create: { messageId, userId, emoji },
+    update: {}
+  });
+
+  await broadcastReactions(loaded.message);
+  return null;
+};
+
+/**
+ * Remove the user's reaction with an emoji from a message
+ */
+export const removeMessageReaction = async (
+  messageId: string,
+  userId: string,
+  emoji: string
+): Promise<{ error: string; status: number } | null> => {
+  const loaded = await loadReactableMessage(messageId, userId);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const result = await prisma.messageReaction.deleteMany({
+    where: { messageId, userId, emoji }
+  });
+
+  if (result.count === 0) {
+    return { error: 'No reaction found to remove', status: 404 };
+  }
+
+  await broadcastReactions(loaded.message);
+  return null;
+};
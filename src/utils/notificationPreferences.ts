@@ -0,0 +1,88 @@
+import prisma from './prisma.js';
+
+export const NOTIFICATION_TYPES = [
+  'pod_join',
+  'join_request',
+  'pod_review',
+  'pod_transfer',
+  'post_like',
+  'comment',
+  'mention',
+  'announcement',
+  'moderation',
+  'message_request',
+  'call_booking',
+  'pitch',
+  'event'
+] as const;
+
+/**
+ * Where a notification originates, used to apply pod/room/chat mutes
+ */
+export interface NotificationContext {
+  podId?: string;
+  roomId?: string;
+  chatId?: string;
+}
+
+export interface NotificationDelivery {
+  inApp: boolean;
+  realtime: boolean;
+}
+
+/**
+ * Where in-app and realtime delivery is allowed for each user, based on their
+ * per-type preferences and active mutes. Users without a preference row get
+ * every channel; muted users are left out of the result entirely.
+ */
+export async function getNotificationDeliveries(
+  userIds: string[],
+  type: string,
+  context: NotificationContext = {}
+): Promise<Map<string, NotificationDelivery>> {
+  const muteTargets = [
+    context.podId && { targetType: 'POD' as const, targetId: context.podId },
+    context.roomId && { targetType: 'ROOM' as const, targetId: context.roomId },
+    context.chatId && { targetType: 'CHAT' as const, targetId: context.chatId }
+  ].filter((target): target is { targetType: 'POD' | 'ROOM' | 'CHAT'; targetId: string } => !!target);
+
+  const [preferences, mutes] = await Promise.all([
+    prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, type }
+    }),
+    muteTargets.length > 0
+      ? prisma.notificationMute.findMany({
+          where: {
+            userId: { in: userIds },
+            OR: muteTargets,
+            AND: [
+              { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }
+            ]
+          },
+          select: { userId: true }
+        })
+      : Promise.resolve([])
+  ]);
+
+  const mutedUserIds = new Set(mutes.map(mute => mute.userId));
+  const preferencesByUser = new Map(preferences.map(preference => [preference.userId, preference]));
+  const deliveries = new Map<string, NotificationDelivery>();
+
+  userIds.forEach(userId => {
+    if (mutedUserIds.has(userId)) {
+      return;
+    }
+
+    const preference = preferencesByUser.get(userId);
+    const delivery = {
+      inApp: preference ? preference.inApp : true,
+      realtime: preference ? preference.realtime : true
+    };
+
+    if (delivery.inApp || delivery.realtime) {
+      deliveries.set(userId, delivery);
+    }
+  });
+
+  return deliveries;
+}
@@ -0,0 +1,150 @@
+import { Request } from 'express';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+// Message histories keep the page size they had before pagination was shared
+export const MESSAGE_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Pagination {
+  limit: number;
+  // Spread into a Prisma findMany; fetches one extra row to know if there is a next page
+  args: {
+    take: number;
+    cursor?: { id: string };
+    skip?: number;
+  };
+}
+
+/**
+ * Encode the id of the last returned row as an opaque cursor
+ */
+export const encodeCursor = (id: string): string => {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+};
+
+/**
+ * Decode a cursor produced by encodeCursor, or null if it is malformed
+ */
+export const decodeCursor = (cursor: string): string | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.id === 'string' ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const parseLimit = (limit: unknown, defaultLimit: number): number => {
+  const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : NaN;
+  return Number.isNaN(parsedLimit) || parsedLimit < 1
+    ? defaultLimit
+    : Math.min(parsedLimit, MAX_PAGE_LIMIT);
+};
+
+const encodeOffsetCursor = (offset: number): string => {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+};
+
+/**
+ * Read `limit` and `cursor` from the query string.
+ * Returns null when the cursor is invalid.
+ *
+ * The Prisma query must order by a unique tiebreaker (usually `id`) so pages are stable.
+ */
+export const getPagination = (query: Request['query'], defaultLimit: number = DEFAULT_PAGE_LIMIT): Pagination | null => {
+  const { cursor } = query;
+  const pageLimit = parseLimit(query.limit, defaultLimit);
+
+  if (cursor === undefined || cursor === '') {
+    return { limit: pageLimit, args: { take: pageLimit + 1 } };
+  }
+
+  const cursorId = typeof cursor === 'string' ? decodeCursor(cursor) : null;
+
+  if (!cursorId) {
+    return null;
+  }
+
+  return {
+    limit: pageLimit,
+    args: {
+      take: pageLimit + 1,
+      cursor: { id: cursorId },
+      skip: 1
+    }
+  };
+};
+
+/**
+ * Trim the extra row fetched by getPagination and compute the next cursor
+ */
+export const paginate = <T extends { id: string }>(
+  rows: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null } => {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1].id) : null
+  };
+};
+
+/**
+ * Offset-based variant for lists that are ordered in memory (e.g. the ranked feed).
+ * The offset is still wrapped in an opaque cursor. Returns null when the cursor is invalid.
+ */
+export const getOffsetPagination = (query: Request['query']): { limit: number; offset: number } | null => {
+  const { cursor } = query;
+  const limit = parseLimit(query.limit, DEFAULT_PAGE_LIMIT);
+
+  if (cursor === undefined || cursor === '') {
+    return { limit, offset: 0 };
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+      return null;
+    }
+    return { limit, offset: decoded.offset };
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Slice one page out of an in-memory list and compute the next offset cursor
+ */
+export const paginateOffset = <T>(
+  rows: T[],
+  offset: number,
+  limit: number
+): { items: T[]; nextCursor: string | null } => {
+  const items = rows.slice(offset, offset + limit);
+  const nextOffset = offset + limit;
+
+  return {
+    items,
+    nextCursor: nextOffset < rows.length ? encodeOffsetCursor(nextOffset) : null
+  };
+};
+
+/**
+ * Trim the extra row of a database page fetched with `skip: offset, take: limit + 1`
+ * and compute the next offset cursor. For lists ordered by a mutable column, where an
+ * id cursor could point at a row that has since moved.
+ */
+export const paginateOffsetRows = <T>(
+  rows: T[],
+  offset: number,
+  limit: number
+): { items: T[]; nextCursor: string | null } => {
+  const hasMore = rows.length > limit;
+
+  return {
+    items: hasMore ? rows.slice(0, limit) : rows,
+    nextCursor: hasMore ? encodeOffsetCursor(offset + limit) : null
+  };
+};
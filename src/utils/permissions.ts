@@ -1,4 +1,7 @@
+import { Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from './prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
 
 /**
  * Check if a user is a member of a pod
@@ -43,14 +46,53 @@ export async function checkPodCoOwnership(podId: string, userId: string): Promis
 }
 
 /**
- * Check if user has access to pod (member, owner, or co-owner)
+ * Named permissions that can be granted within a pod
  */
-export async function checkPodAccess(podId: string, userId: string): Promise<{
+export const POD_PERMISSIONS = [
+  'manage_pod',
+  'manage_members',
+  'manage_roles',
+  'manage_rooms',
+  'manage_events',
+  'manage_posts',
+  'review_pitches',
+  'moderate'
+] as const;
+
+export type PodPermission = typeof POD_PERMISSIONS[number];
+
+export type PodRoleName = 'OWNER' | 'CO_OWNER' | 'MODERATOR' | 'MEMBER';
+
+// Permissions that come with each built-in role. Custom roles add to these.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<PodRoleName, readonly PodPermission[]> = {
+  OWNER: POD_PERMISSIONS,
+  CO_OWNER: POD_PERMISSIONS,
+  MODERATOR: ['moderate'],
+  MEMBER: []
+};
+
+// Higher roles can act on (remove, ban, mute, re-role) lower ones
+export const POD_ROLE_RANK: Record<PodRoleName, number> = {
+  OWNER: 3,
+  CO_OWNER: 2,
+  MODERATOR: 1,
+  MEMBER: 0
+};
+
+export interface PodAccess {
   hasAccess: boolean;
   isOwner: boolean;
   isCoOwner: boolean;
   isMember: boolean;
-}> {
+  role: PodRoleName | null;
+  permissions: PodPermission[];
+}
+
+/**
+ * Check if user has access to pod (member, owner, or co-owner),
+ * along with their role and permissions in it
+ */
+export async function checkPodAccess(podId: string, userId: string): Promise<PodAccess> {
   const [pod, membership] = await Promise.all([
     prisma.pod.findUnique({
       where: { id: podId },
@@ -67,12 +109,17 @@ export async function checkPodAccess(podId: string, userId: string): Promise<{
           podId,
           userId
         }
+      },
+      include: {
+        customRole: {
+          select: { permissions: true }
+        }
       }
     })
   ]);
 
   if (!pod) {
-    return { hasAccess: false, isOwner: false, isCoOwner: false, isMember: false };
+    return { hasAccess: false, isOwner: false, isCoOwner: false, isMember: false, role: null, permissions: [] };
   }
 
   const isOwner = pod.ownerId === userId;
@@ -80,9 +127,138 @@ export async function checkPodAccess(podId: string, userId: string): Promise<{
   const isMember = !!membership;
   const hasAccess = isOwner || isCoOwner || isMember;
 
-  return { hasAccess, isOwner, isCoOwner, isMember };
+  const role: PodRoleName | null = isOwner
+    ? 'OWNER'
+    : isCoOwner
+      ? 'CO_OWNER'
+      : membership?.role ?? null;
+
+  const permissions = role
+    ? POD_PERMISSIONS.filter(permission =>
+        BUILT_IN_ROLE_PERMISSIONS[role].includes(permission) ||
+        !!membership?.customRole?.permissions.includes(permission)
+      )
+    : [];
+
+  return { hasAccess, isOwner, isCoOwner, isMember, role, permissions };
+}
+
+/**
+ * Rank of a user in a pod, used to decide who can act on whom.
+ * Members granted permissions by a custom role rank between plain members and moderators.
+ */
+export const getPodRank = (access: Pick<PodAccess, 'role' | 'permissions'>): number => {
+  if (!access.role) {
+    return -1;
+  }
+
+  return access.role === 'MEMBER' && access.permissions.length > 0
+    ? POD_ROLE_RANK.MEMBER + 0.5
+    : POD_ROLE_RANK[access.role];
+};
+
+/**
+ * Check if a user holds a named permission in a pod
+ */
+export async function hasPodPermission(podId: string, userId: string, permission: PodPermission): Promise<boolean> {
+  const { permissions } = await checkPodAccess(podId, userId);
+  return permissions.includes(permission);
 }
 
+/**
+ * Prisma filter for pods in which a user holds a named permission
+ */
+export const podsWithPermissionWhere = (userId: string, permission: PodPermission): Prisma.PodWhereInput => ({
+  OR: [
+    { ownerId: userId },
+    { coOwners: { some: { id: userId } } },
+    ...(BUILT_IN_ROLE_PERMISSIONS.MODERATOR.includes(permission)
+      ? [{ members: { some: { userId, role: 'MODERATOR' as const } } }]
+      : []),
+    { members: { some: { userId, customRole: { permissions: { has: permission } } } } }
+  ]
+});
+
+// Where requirePodPermission finds the pod: the pod itself, or the resource it owns
+type PodSource = 'pod' | 'room' | 'event' | 'pitch' | 'post';
+
+const resolvePodId = async (req: AuthenticatedRequest, source: PodSource): Promise<string | null> => {
+  switch (source) {
+    case 'pod': {
+      const pod = await prisma.pod.findUnique({
+        where: { id: req.params.podId ?? req.body.podId },
+        select: { id: true }
+      });
+      return pod?.id ?? null;
+    }
+    case 'room':
+      return (await prisma.room.findUnique({ where: { id: req.params.roomId }, select: { podId: true } }))?.podId ?? null;
+    case 'event':
+      return (await prisma.event.findUnique({ where: { id: req.params.eventId }, select: { podId: true } }))?.podId ?? null;
+    case 'pitch':
+      return (await prisma.pitch.findUnique({ where: { id: req.params.pitchId }, select: { podId: true } }))?.podId ?? null;
+    case 'post':
+      return (await prisma.post.findUnique({ where: { id: req.params.postId }, select: { podId: true } }))?.podId ?? null;
+  }
+};
+
+const POD_SOURCE_PARAMS: Record<PodSource, { param: string; label: string }> = {
+  pod: { param: 'podId', label: 'Pod' },
+  room: { param: 'roomId', label: 'Room' },
+  event: { param: 'eventId', label: 'Event' },
+  pitch: { param: 'pitchId', label: 'Pitch' },
+  post: { param: 'postId', label: 'Post' }
+};
+
+/**
+ * Require a named permission in the pod the request targets. The pod is taken from
+ * `:podId` (or `podId` in the body), or from the room/event/pitch/post in the URL.
+ * On success the caller's access is available as `req.podAccess`.
+ */
+export const requirePodPermission = (permission: PodPermission, source: PodSource = 'pod') => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { param, label } = POD_SOURCE_PARAMS[source];
+
+      if (!req.params[param] && !(source === 'pod' && req.body?.podId)) {
+        res.status(400).json({ error: `${label} ID is required` });
+        return;
+      }
+
+      const podId = await resolvePodId(req, source);
+
+      if (!podId) {
+        res.status(404).json({ error: `${label} not found` });
+        return;
+      }
+
+      const access = await checkPodAccess(podId, req.user!.id);
+
+      if (!access.permissions.includes(permission)) {
+        res.status(403).json({ error: `You need the ${permission} permission in this pod to perform this action` });
+        return;
+      }
+
+      req.podAccess = { ...access, podId };
+      next();
+    } catch (error) {
+      console.error('Pod permission check error:', error);
+      res.status(500).json({ error: 'Failed to check permissions' });
+    }
+  };
+};
+
+/**
+ * Prisma filter for pods a user can access (member, owner, or co-owner)
+ */
+export const accessiblePodsWhere = (userId: string): Prisma.PodWhereInput => ({
+  OR: [
+    { ownerId: userId },
+    { coOwners: { some: { id: userId } } },
+    { members: { some: { userId } } }
+  ]
+});
+
 /**
  * Check if user is a participant in a chat
  */
@@ -0,0 +1,197 @@
+import prisma from './prisma.js';
+import { checkPodAccess } from './permissions.js';
+import { trackRoomsLeftEverywhere } from './presence.js';
+import { ioInstance } from '../socket.js';
+
+/**
+ * The user's ban from a pod, if one is in effect
+ */
+export const getActivePodBan = async (podId: string, userId: string) => {
+  return prisma.podBan.findFirst({
+    where: {
+      podId,
+      userId,
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } }
+      ]
+    }
+  });
+};
+
+/**
+ * Add a user to a pod and drop any join request they still have pending
+ */
+export const addPodMember = async (podId: string, userId: string) => {
+  const [membership] = await prisma.$transaction([
+    prisma.podMember.upsert({
+      where: { podId_userId: { podId, userId } },
+      create: { podId, userId },
+      update: {}
+    }),
+    prisma.podJoinRequest.deleteMany({
+      where: { podId, userId, status: 'PENDING' }
+    })
+  ]);
+
+  return membership;
+};
+
+/**
+ * Take the user's live sockets out of every room of a pod, so someone who lost access
+ * stops receiving the pod's messages and cannot send typing indicators into its rooms.
+ * Owners and co-owners keep access without a membership, so they stay.
+ */
+export const evictFromPodRooms = async (podId: string, userId: string): Promise<void> => {
+  if ((await checkPodAccess(podId, userId)).hasAccess) {
+    return;
+  }
+
+  const rooms = await prisma.room.findMany({
+    where: { podId },
+    select: { id: true }
+  });
+
+  const roomIds = rooms.map(room => room.id);
+  if (roomIds.length === 0) {
+    return;
+  }
+
+  ioInstance?.in(`user:${userId}`).socketsLeave(roomIds);
+  trackRoomsLeftEverywhere(userId, roomIds);
+};
+
+/**
+ * Remove a user's membership of a pod. Returns false if they were not a member.
+ */
+export const removePodMember = async (podId: string, userId: string): Promise<boolean> => {
+  const result = await prisma.podMember.deleteMany({
+    where: { podId, userId }
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await evictFromPodRooms(podId, userId);
+  return true;
+};
+
+/**
+ * Remove a user from a pod (including any co-owner role) and ban them from rejoining
+ */
+export const banFromPod = async (
+  podId: string,
+  userId: string,
+  bannedById: string,
+  reason?: string | null,
+  expiresAt?: Date | null
+) => {
+  const [, , ban] = await prisma.$transaction([
+    prisma.podMember.deleteMany({
+      where: { podId, userId }
+    }),
+    prisma.pod.update({
+      where: { id: podId },
+      data: { coOwners: { disconnect: { id: userId } } }
+    }),
+    prisma.podBan.upsert({
+      where: { podId_userId: { podId, userId } },
+      create: { podId, userId, bannedById, reason, expiresAt },
+      update: { bannedById, reason, expiresAt, createdAt: new Date() }
+    })
+  ]);
+
+  await evictFromPodRooms(podId, userId);
+
+  return ban;
+};
+
+/**
+ * The user's mute in a pod, if one is in effect. Muted members can read but not post.
+ */
+export const getActivePodMute = async (podId: string, userId: string) => {
+  return prisma.podMute.findFirst({
+    where: {
+      podId,
+      userId,
+      expiresAt: { gt: new Date() }
+    }
+  });
+};
+
+/**
+ * Mute a member of a pod until the given date, replacing any existing mute
+ */
+export const muteInPod = async (
+  podId: string,
+  userId: string,
+  mutedById: string,
+  expiresAt: Date,
+  reason?: string | null
+) => {
+  return prisma.podMute.upsert({
+    where: { podId_userId: { podId, userId } },
+    create: { podId, userId, mutedById, reason, expiresAt },
+    update: { mutedById, reason, expiresAt, createdAt: new Date() }
+  });
+};
+
+/**
+ * Complete an accepted ownership transfer in one transaction: the nominee becomes the owner,
+ * the previous owner takes their chosen role, and both users' membership rows follow.
+ * Throws (P2025) without changing anything if the transfer is no longer pending
+ * or the pod changed hands in the meantime.
+ */
+export const transferPodOwnership = async (transfer: {
+  id: string;
+  podId: string;
+  fromUserId: string;
+  toUserId: string;
+  formerOwnerRole: 'CO_OWNER' | 'MEMBER' | 'NONE';
+}) => {
+  const { id, podId, fromUserId, toUserId, formerOwnerRole } = transfer;
+
+  const [, pod] = await prisma.$transaction([
+    prisma.podOwnershipTransfer.update({
+      where: { id, status: 'PENDING' },
+      data: { status: 'ACCEPTED', respondedAt: new Date() }
+    }),
+    prisma.pod.update({
+      where: { id: podId, ownerId: fromUserId },
+      data: {
+        ownerId: toUserId,
+        coOwners: {
+          disconnect: { id: toUserId },
+          ...(formerOwnerRole === 'CO_OWNER' && { connect: { id: fromUserId } })
+        }
+      }
+    }),
+    // Owners are not listed as members; the previous owner only stays one if they chose to
+    prisma.podMember.deleteMany({
+      where: { podId, userId: toUserId }
+    }),
+    ...(formerOwnerRole === 'MEMBER'
+      ? [prisma.podMember.upsert({
+          where: { podId_userId: { podId, userId: fromUserId } },
+          create: { podId, userId: fromUserId },
+          update: {}
+        })]
+      : []),
+    // Owning a pod requires the pod owner account role
+    prisma.user.updateMany({
+      where: { id: toUserId, role: 'USER' },
+      data: { role: 'POD_OWNER' }
+    }),
+    prisma.moderationLog.create({
+      data: {
+        moderatorId: fromUserId,
+        action: 'TRANSFER_OWNERSHIP',
+        podId,
+        targetUserId: toUserId
+      }
+    })
+  ]);
+
+  return pod;
+};
@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export interface PollInput {
+  options: string[];
+  allowMultiple?: boolean;
+  isAnonymous?: boolean;
+  closesAt?: string;
+}
+
+/**
+ * Validate the `poll` field of a new post and turn it into nested create data.
+ * Returns an error message instead when the input is invalid.
+ */
+export const parsePollInput = (input: PollInput): { data: Prisma.PollCreateWithoutPostInput } | { error: string } => {
+  if (!input || !Array.isArray(input.options)) {
+    return { error: 'Poll options are required' };
+  }
+
+  const options = input.options.map(option => (typeof option === 'string' ? option.trim() : ''));
+
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return { error: `A poll needs between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options` };
+  }
+
+  if (options.some(option => !option)) {
+    return { error: 'Poll options cannot be empty' };
+  }
+
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    return { error: 'Poll options must be unique' };
+  }
+
+  let closesAt: Date | undefined;
+  if (input.closesAt) {
+    closesAt = new Date(input.closesAt);
+    if (Number.isNaN(closesAt.getTime()) || closesAt <= new Date()) {
+      return { error: 'Poll close time must be in the future' };
+    }
+  }
+
+  return {
+    data: {
+      allowMultiple: !!input.allowMultiple,
+      isAnonymous: !!input.isAnonymous,
+      closesAt,
+      options: {
+        create: options.map((text, position) => ({ text, position }))
+      }
+    }
+  };
+};
+
+export const isPollClosed = (poll: { closesAt: Date | null }): boolean => {
+  return poll.closesAt !== null && poll.closesAt <= new Date();
+};
+
+/**
+ * Include for embedding a poll summary (vote counts and the viewer's votes) in post queries
+ */
+export const getPollSummaryInclude = (viewerId: string) => ({
+  options: {
+    orderBy: { position: 'asc' },
+    select: {
+      id: true,
+      text: true,
+      position: true,
+      _count: { select: { votes: true } }
+    }
+  },
+  votes: {
+    where: { userId: viewerId },
+    select: { optionId: true }
+  }
+}) satisfies Prisma.PollInclude;
+
+type PollSummaryRow = Prisma.PollGetPayload<{ include: ReturnType<typeof getPollSummaryInclude> }>;
+
+export const toPollSummary = ({ options, votes, ...poll }: PollSummaryRow) => ({
+  ...poll,
+  isClosed: isPollClosed(poll),
+  options: options.map(({ _count, ...option }) => ({ ...option, voteCount: _count.votes })),
+  viewerVotes: votes.map(vote => vote.optionId)
+});
+
+/**
+ * Aggregate the results of a poll. Voter lists are only included for non-anonymous polls,
+ * and `viewerVotes` only when a viewer is given (realtime broadcasts omit it).
+ */
+export const getPollResults = async (pollId: string, viewerId?: string) => {
+  const poll = await prisma.poll.findUnique({
+    where: { id: pollId },
+    include: {
+      options: {
+        orderBy: { position: 'asc' },
+        include: {
+          votes: {
+            select: {
+              userId: true,
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  fullName: true,
+                  profilePhoto: true
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!poll) {
+    return null;
+  }
+
+  const voterIds = new Set(poll.options.flatMap(option => option.votes.map(vote => vote.userId)));
+
+  return {
+    id: poll.id,
+    postId: poll.postId,
+    allowMultiple: poll.allowMultiple,
+    isAnonymous: poll.isAnonymous,
+    closesAt: poll.closesAt,
+    isClosed: isPollClosed(poll),
+    totalVoters: voterIds.size,
+    options: poll.options.map(option => ({
+      id: option.id,
+      text: option.text,
+      position: option.position,
+      voteCount: option.votes.length,
+      ...(!poll.isAnonymous && { voters: option.votes.map(vote => vote.user) })
+    })),
+    ...(viewerId && {
+      viewerVotes: poll.options
+        .filter(option => option.votes.some(vote => vote.userId === viewerId))
+        .map(option => option.id)
+    })
+  };
+};
@@ -0,0 +1,51 @@
+import prisma from './prisma.js';
+
+/**
+ * Recount reactions, likes and comments of a post and store them on the post.
+ * Recounting (instead of incrementing) keeps the counters correct even when
+ * concurrent requests race or a write is retried. The update is raw SQL so that
+ * reactions and comments do not bump the post's `updatedAt`.
+ */
+export const refreshPostCounters = async (postId: string): Promise<void> => {
+  const [reactionCount, likeCount, commentCount] = await Promise.all([
+    prisma.reaction.count({ where: { postId } }),
+    prisma.reaction.count({ where: { postId, type: 'like' } }),
+    prisma.comment.count({ where: { postId } })
+  ]);
+
+  await prisma.$executeRaw`
+    UPDATE "posts"
+    SET "reactionCount" = ${reactionCount}, "likeCount" = ${likeCount}, "commentCount" = ${commentCount}
+    WHERE "id" = ${postId}
+  `;
+};
+
+/**
+ * Recompute the counters of every post, in batches. Used to backfill existing data.
+ */
+export const refreshAllPostCounters = async (batchSize: number = 200): Promise<number> => {
+  let cursor: string | undefined;
+  let processed = 0;
+
+  while (true) {
+    const posts = await prisma.post.findMany({
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    for (const post of posts) {
+      await refreshPostCounters(post.id);
+    }
+
+    processed += posts.length;
+
+    if (posts.length < batchSize) {
+      break;
+    }
+    cursor = posts[posts.length - 1].id;
+  }
+
+  return processed;
+};
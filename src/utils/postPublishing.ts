@@ -0,0 +1,84 @@
+import prisma from './prisma.js';
+import { hasPodPermission } from './permissions.js';
+import { syncPostTags } from './tags.js';
+import { syncMentions, podAudience } from './mentions.js';
+
+/**
+ * Whether a user can see and edit a draft or scheduled post: its author, plus
+ * anyone with manage_posts in the pod for owner updates
+ */
+export const canManageUnpublishedPost = async (
+  post: { authorId: string; podId: string; type: string },
+  userId: string
+): Promise<boolean> => {
+  if (post.authorId === userId) {
+    return true;
+  }
+
+  if (post.type !== 'OWNER_UPDATE') {
+    return false;
+  }
+
+  return hasPodPermission(post.podId, userId, 'manage_posts');
+};
+
+/**
+ * Side effects of a post going live: index its hashtags and notify mentioned users
+ */
+export const runPostPublishEffects = async (
+  post: { id: string; content: string; podId: string },
+  author: { id: string; name: string }
+): Promise<void> => {
+  await syncPostTags(post.id, post.content);
+
+  await syncMentions(
+    { postId: post.id },
+    post.content,
+    author,
+    podAudience(post.podId),
+    { message: 'mentioned you in a post', linkedId: post.id, context: { podId: post.podId } }
+  );
+};
+
+/**
+ * Publish a draft or scheduled post. The status flip is a conditional update, so
+ * a post is only ever published (and its side effects run) once, even when the
+ * scheduler and a manual publish race. With `onlyIfDue`, only scheduled posts
+ * whose time has come are published.
+ *
+ * Returns false when the post was not published by this call.
+ */
+export const publishPost = async (postId: string, onlyIfDue: boolean = false): Promise<boolean> => {
+  const now = new Date();
+
+  const result = await prisma.post.updateMany({
+    where: onlyIfDue
+      ? { id: postId, status: 'SCHEDULED', scheduledAt: { lte: now } }
+      : { id: postId, status: { in: ['DRAFT', 'SCHEDULED'] } },
+    // Feeds are ordered by createdAt, so a post goes out at its publish time
+    data: { status: 'PUBLISHED', scheduledAt: null, createdAt: now }
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: {
+      id: true,
+      content: true,
+      podId: true,
+      author: { select: { id: true, username: true, fullName: true } }
+    }
+  });
+
+  if (post) {
+    await runPostPublishEffects(post, {
+      id: post.author.id,
+      name: post.author.fullName || post.author.username
+    });
+  }
+
+  return true;
+};
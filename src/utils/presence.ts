@@ -0,0 +1,205 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { accessiblePodsWhere } from './permissions.js';
+import { ioInstance } from '../socket.js';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeenAt: Date | null;
+}
+
+interface SocketPresence {
+  away: boolean;
+  rooms: Set<string>; // Pod rooms this socket has joined
+}
+
+// Max users per batch presence lookup
+export const MAX_PRESENCE_IDS = 100;
+
+// Connected sockets per user. Presence is kept in memory, so it only covers
+// the sockets of this server instance.
+const connections = new Map<string, Map<string, SocketPresence>>();
+
+/**
+ * A user is online if any of their sockets is active, away if all of them are idle
+ */
+export const getPresenceStatus = (userId: string): PresenceStatus => {
+  const sockets = connections.get(userId);
+
+  if (!sockets || sockets.size === 0) {
+    return 'offline';
+  }
+
+  return [...sockets.values()].some(s => !s.away) ? 'online' : 'away';
+};
+
+/**
+ * Whether any other socket of the user has joined a room, so that tabs and devices
+ * coming and going do not announce the user joining or leaving twice
+ */
+export const isInRoomElsewhere = (userId: string, roomId: string, socketId: string): boolean => {
+  const sockets = connections.get(userId);
+
+  return !!sockets && [...sockets.entries()].some(([id, s]) => id !== socketId && s.rooms.has(roomId));
+};
+
+const getUserRooms = (userId: string): string[] => {
+  const sockets = connections.get(userId);
+  return sockets ? [...new Set([...sockets.values()].flatMap(s => [...s.rooms]))] : [];
+};
+
+/**
+ * Tell the user's DM partners and the pod rooms they are in about a presence change
+ */
+const broadcastPresence = async (presence: UserPresence, rooms: string[]): Promise<void> => {
+  if (!ioInstance) {
+    return;
+  }
+
+  const partners = await prisma.chatParticipant.findMany({
+    where: {
+      chat: { participants: { some: { userId: presence.userId } } },
+      userId: { not: presence.userId }
+    },
+    distinct: ['userId'],
+    select: { userId: true }
+  });
+
+  const targets = [...partners.map(p => `user:${p.userId}`), ...rooms];
+
+  if (targets.length > 0) {
+    ioInstance.to(targets).emit('presence-updated', presence);
+  }
+};
+
+/**
+ * Broadcast the user's status if it changed, recording when they were last seen
+ * when they go offline
+ */
+const publishIfChanged = async (userId: string, previous: PresenceStatus, rooms: string[]): Promise<void> => {
+  const status = getPresenceStatus(userId);
+
+  if (status === previous) {
+    return;
+  }
+
+  const { lastSeenAt } = status === 'offline'
+    ? await prisma.user.update({
+      where: { id: userId },
+      data: { lastSeenAt: new Date() },
+      select: { lastSeenAt: true }
+    })
+    : await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { lastSeenAt: true }
+    });
+
+  await broadcastPresence({ userId, status, lastSeenAt }, rooms);
+};
+
+/**
+ * Register a newly connected socket
+ */
+export const trackSocketConnected = async (userId: string, socketId: string): Promise<void> => {
+  const previous = getPresenceStatus(userId);
+  const sockets = connections.get(userId) ?? new Map<string, SocketPresence>();
+
+  sockets.set(socketId, { away: false, rooms: new Set() });
+  connections.set(userId, sockets);
+
+  await publishIfChanged(userId, previous, getUserRooms(userId));
+};
+
+/**
+ * Forget a disconnected socket. The user goes offline with their last socket.
+ */
+export const trackSocketDisconnected = async (userId: string, socketId: string): Promise<void> => {
+  const previous = getPresenceStatus(userId);
+  const rooms = getUserRooms(userId);
+  const sockets = connections.get(userId);
+
+  sockets?.delete(socketId);
+  if (sockets?.size === 0) {
+    connections.delete(userId);
+  }
+
+  await publishIfChanged(userId, previous, rooms);
+};
+
+/**
+ * Mark a socket as idle or active again, e.g. when its tab is hidden or shown
+ */
+export const setSocketAway = async (userId: string, socketId: string, away: boolean): Promise<void> => {
+  const socket = connections.get(userId)?.get(socketId);
+
+  if (!socket || socket.away === away) {
+    return;
+  }
+
+  const previous = getPresenceStatus(userId);
+  socket.away = away;
+
+  await publishIfChanged(userId, previous, getUserRooms(userId));
+};
+
+export const trackRoomJoined = (userId: string, socketId: string, roomId: string): void => {
+  connections.get(userId)?.get(socketId)?.rooms.add(roomId);
+};
+
+export const trackRoomLeft = (userId: string, socketId: string, roomId: string): void => {
+  connections.get(userId)?.get(socketId)?.rooms.delete(roomId);
+};
+
+/**
+ * Forget rooms on all of the user's sockets, e.g. when they lose access to a pod
+ */
+export const trackRoomsLeftEverywhere = (userId: string, roomIds: string[]): void => {
+  for (const socket of connections.get(userId)?.values() ?? []) {
+    roomIds.forEach(roomId => socket.rooms.delete(roomId));
+  }
+};
+
+/**
+ * Rooms a socket has joined, for cleaning up when it disconnects
+ */
+export const getSocketRooms = (userId: string, socketId: string): string[] => {
+  return [...(connections.get(userId)?.get(socketId)?.rooms ?? [])];
+};
+
+/**
+ * Users the viewer may see the presence of: themselves, their DM partners and
+ * anyone in a pod they belong to
+ */
+const presenceAudience = (viewerId: string): Prisma.UserWhereInput => {
+  const sharedPods = accessiblePodsWhere(viewerId);
+
+  return {
+    OR: [
+      { id: viewerId },
+      { chatsParticipated: { some: { chat: { participants: { some: { userId: viewerId } } } } } },
+      { podMemberships: { some: { pod: sharedPods } } },
+      { ownedPods: { some: sharedPods } },
+      { coOwnedPods: { some: sharedPods } }
+    ]
+  };
+};
+
+/**
+ * Presence of several users at once. Unknown user IDs and users the viewer
+ * shares no chat or pod with are left out.
+ */
+export const getPresence = async (viewerId: string, userIds: string[]): Promise<UserPresence[]> => {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, ...presenceAudience(viewerId) },
+    select: { id: true, lastSeenAt: true }
+  });
+
+  return users.map(user => ({
+    userId: user.id,
+    status: getPresenceStatus(user.id),
+    lastSeenAt: user.lastSeenAt
+  }));
+};
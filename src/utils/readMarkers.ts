@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { checkPodAccess } from './permissions.js';
+import { ioInstance } from '../socket.js';
+
+type MarkReadResult = { lastReadAt: Date } | { error: string; status: number };
+
+/**
+ * Messages another user sent after the read marker
+ */
+const unreadWhere = (userId: string, lastReadAt: Date | null): Prisma.MessageWhereInput => ({
+  senderId: { not: userId },
+  hiddenAt: null,
+  deletedAt: null,
+  ...(lastReadAt && { createdAt: { gt: lastReadAt } })
+});
+
+/**
+ * Where a read marker should move to: up to the given message, or everything so far.
+ * Returns null when the message is not part of the room or chat.
+ */
+const resolveReadUpTo = async (
+  where: { roomId: string } | { chatId: string },
+  messageId?: string
+): Promise<Date | null> => {
+  if (!messageId) {
+    return new Date();
+  }
+
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, ...where },
+    select: { createdAt: true }
+  });
+
+  return message?.createdAt ?? null;
+};
+
+// Markers never move backwards, e.g. when another device reads an older page
+const laterOf = (current: Date | null | undefined, next: Date): Date => {
+  return current && current > next ? current : next;
+};
+
+/**
+ * Mark a room as read up to a message (or entirely) and sync the user's other devices
+ */
+export const markRoomRead = async (roomId: string, userId: string, messageId?: string): Promise<MarkReadResult> => {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { podId: true }
+  });
+
+  if (!room) {
+    return { error: 'Room not found', status: 404 };
+  }
+
+  if (!(await checkPodAccess(room.podId, userId)).hasAccess) {
+    return { error: 'You must be a member of this pod to view messages', status: 403 };
+  }
+
+  const upTo = await resolveReadUpTo({ roomId }, messageId);
+  if (!upTo) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  const existing = await prisma.roomReadMarker.findUnique({
+    where: { roomId_userId: { roomId, userId } },
+    select: { lastReadAt: true }
+  });
+
+  const lastReadAt = laterOf(existing?.lastReadAt, upTo);
+
+  await prisma.roomReadMarker.upsert({
+    where: { roomId_userId: { roomId, userId } },
+    create: { roomId, userId, lastReadAt },
+    update: { lastReadAt }
+  });
+
+  ioInstance?.to(`user:${userId}`).emit('messages-read', { roomId, userId, lastReadAt });
+
+  return { lastReadAt };
+};
+
+/**
+ * Mark a chat as read up to a message (or entirely). Every participant gets a
+ * `messages-read` receipt, so senders can show "seen".
+ */
+export const markChatRead = async (chatId: string, userId: string, messageId?: string): Promise<MarkReadResult> => {
+  const participant = await prisma.chatParticipant.findUnique({
+    where: { chatId_userId: { chatId, userId } },
+    select: { id: true, lastReadAt: true }
+  });
+
+  if (!participant) {
+    return { error: 'You are not a participant of this chat', status: 403 };
+  }
+
+  const upTo = await resolveReadUpTo({ chatId }, messageId);
+  if (!upTo) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  const lastReadAt = laterOf(participant.lastReadAt, upTo);
+
+  await prisma.chatParticipant.update({
+    where: { id: participant.id },
+    data: { lastReadAt }
+  });
+
+  const participants = await prisma.chatParticipant.findMany({
+    where: { chatId },
+    select: { userId: true }
+  });
+
+  ioInstance?.to(participants.map(p => `user:${p.userId}`)).emit('messages-read', { chatId, userId, lastReadAt });
+
+  return { lastReadAt };
+};
+
+/**
+ * Where unread messages start for each room or chat. Without a read marker, that is when
+ * the user joined, or their own latest message there if that is later (anything before it
+ * was seen), so existing history does not all show up as unread.
+ */
+const resolveUnreadSince = async (
+  key: 'roomId' | 'chatId',
+  ids: string[],
+  userId: string,
+  lastReadAt: Map<string, Date | null>,
+  joinedAt: Map<string, Date | null>
+): Promise<Map<string, Date | null>> => {
+  const unmarked = ids.filter(id => !lastReadAt.get(id));
+
+  const ownLatest = unmarked.length > 0
+    ? await prisma.message.groupBy({
+        by: [key],
+        where: { [key]: { in: unmarked }, senderId: userId },
+        _max: { createdAt: true }
+      })
+    : [];
+
+  const ownLatestById = new Map(ownLatest.map(row => [row[key] as string, row._max.createdAt]));
+
+  return new Map(ids.map(id => {
+    const marker = lastReadAt.get(id);
+    if (marker) {
+      return [id, marker];
+    }
+
+    const [joined, own] = [joinedAt.get(id) ?? null, ownLatestById.get(id) ?? null];
+    return [id, joined && own ? laterOf(joined, own) : joined ?? own];
+  }));
+};
+
+/**
+ * Count unread messages for many rooms or chats in one query, each from its own starting point
+ */
+const countUnread = async (
+  key: 'roomId' | 'chatId',
+  since: Map<string, Date | null>,
+  userId: string,
+  where: Prisma.MessageWhereInput = {}
+): Promise<Map<string, number>> => {
+  const counts = new Map([...since.keys()].map(id => [id, 0]));
+
+  if (counts.size === 0) {
+    return counts;
+  }
+
+  const groups = await prisma.message.groupBy({
+    by: [key],
+    where: {
+      ...where,
+      ...unreadWhere(userId, null),
+      OR: [...since.entries()].map(([id, from]) => ({
+        [key]: id,
+        ...(from && { createdAt: { gt: from } })
+      }))
+    },
+    _count: { _all: true }
+  });
+
+  for (const group of groups) {
+    counts.set(group[key] as string, group._count._all);
+  }
+
+  return counts;
+};
+
+/**
+ * Unread top-level messages per room of a pod for a user
+ */
+export const getRoomUnreadCounts = async (podId: string, roomIds: string[], userId: string): Promise<Map<string, number>> => {
+  const [markers, membership] = await Promise.all([
+    prisma.roomReadMarker.findMany({
+      where: { roomId: { in: roomIds }, userId },
+      select: { roomId: true, lastReadAt: true }
+    }),
+    prisma.podMember.findUnique({
+      where: { podId_userId: { podId, userId } },
+      select: { joinedAt: true }
+    })
+  ]);
+
+  const since = await resolveUnreadSince(
+    'roomId',
+    roomIds,
+    userId,
+    new Map(markers.map(m => [m.roomId, m.lastReadAt])),
+    new Map(roomIds.map(roomId => [roomId, membership?.joinedAt ?? null]))
+  );
+
+  return countUnread('roomId', since, userId, { parentId: null });
+};
+
+/**
+ * Unread messages per chat for a participant
+ */
+export const getChatUnreadCounts = async (
+  participants: { chatId: string; lastReadAt: Date | null; joinedAt: Date }[],
+  userId: string
+): Promise<Map<string, number>> => {
+  const since = await resolveUnreadSince(
+    'chatId',
+    participants.map(p => p.chatId),
+    userId,
+    new Map(participants.map(p => [p.chatId, p.lastReadAt])),
+    new Map(participants.map(p => [p.chatId, p.joinedAt]))
+  );
+
+  return countUnread('chatId', since, userId);
+};
@@ -0,0 +1,299 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { checkPodAccess, hasPodPermission } from './permissions.js';
+import { getActivePodMute } from './podMembership.js';
+import { syncMentions, podAudience } from './mentions.js';
+import { ioInstance } from '../socket.js';
+
+export const roomMessageInclude = {
+  sender: {
+    select: {
+      id: true,
+      username: true,
+      fullName: true,
+      profilePhoto: true
+    }
+  }
+} satisfies Prisma.MessageInclude;
+
+/**
+ * Shape a room message for clients. Deleted messages stay in the list as tombstones without content.
+ */
+export const toRoomMessageResponse = <T extends { content: string; editedAt: Date | null; deletedAt: Date | null }>(message: T) => ({
+  ...message,
+  content: message.deletedAt ? null : message.content,
+  isEdited: message.editedAt !== null,
+  isDeleted: message.deletedAt !== null
+});
+
+/**
+ * Reply count and latest reply of a thread root, for message listings
+ */
+export const threadSummaryInclude = {
+  ...roomMessageInclude,
+  _count: {
+    select: {
+      replies: { where: { hiddenAt: null, deletedAt: null } }
+    }
+  },
+  replies: {
+    where: { hiddenAt: null, deletedAt: null },
+    orderBy: [
+      { createdAt: 'desc' },
+      { id: 'desc' }
+    ],
+    take: 1,
+    include: roomMessageInclude
+  }
+} satisfies Prisma.MessageInclude;
+
+type ThreadRootRow = Prisma.MessageGetPayload<{ include: typeof threadSummaryInclude }>;
+
+/**
+ * Shape a top-level room message with its thread's reply count and last reply preview
+ */
+export const toThreadRootResponse = ({ _count, replies, ...message }: ThreadRootRow) => ({
+  ...toRoomMessageResponse(message),
+  replyCount: _count.replies,
+  lastReply: replies[0] ? toRoomMessageResponse(replies[0]) : null
+});
+
+type RoomMessageError = { error: string; status: number; mutedUntil?: Date };
+
+type RoomMessageRow = Prisma.MessageGetPayload<{ include: typeof roomMessageInclude }>;
+
+export type RoomMessageResult =
+  | { message: ReturnType<typeof toRoomMessageResponse<RoomMessageRow>> }
+  | RoomMessageError;
+
+type LoadedRoomMessage = {
+  message: Prisma.MessageGetPayload<{ include: { room: { select: { podId: true; name: true } } } }>;
+  podId: string;
+  roomName: string;
+};
+
+/**
+ * Follow a thread to get its live updates
+ */
+export const followThread = async (messageId: string, userId: string) => {
+  return prisma.messageThreadFollower.upsert({
+    where: { messageId_userId: { messageId, userId } },
+    create: { messageId, userId },
+    update: {}
+  });
+};
+
+/**
+ * Send an event to the followers of a thread who can still see its pod
+ */
+export const emitToThreadFollowers = async (threadId: string, podId: string, event: string, payload: unknown): Promise<void> => {
+  const followers = await prisma.messageThreadFollower.findMany({
+    where: { messageId: threadId, user: podAudience(podId) },
+    select: { userId: true }
+  });
+
+  if (followers.length > 0) {
+    ioInstance?.to(followers.map(f => `user:${f.userId}`)).emit(event, payload);
+  }
+};
+
+/**
+ * Broadcast a change to a room message. Thread replies only reach the thread's followers.
+ */
+export const emitMessageChange = async (
+  message: { roomId: string | null; parentId: string | null },
+  podId: string,
+  event: string,
+  payload: unknown
+): Promise<void> => {
+  if (message.parentId) {
+    await emitToThreadFollowers(message.parentId, podId, event, payload);
+  } else if (message.roomId) {
+    ioInstance?.to(message.roomId).emit(event, payload);
+  }
+};
+
+/**
+ * Side effects of a new thread reply: the replier follows the thread (as does the root's
+ * author, on the first reply) and followers get `thread-reply`
+ */
+export const publishThreadReply = async (
+  threadId: string,
+  podId: string,
+  reply: { id: string; roomId: string | null; senderId: string }
+): Promise<void> => {
+  const [root, replyCount] = await Promise.all([
+    prisma.message.findUnique({ where: { id: threadId }, select: { senderId: true } }),
+    prisma.message.count({ where: { parentId: threadId, hiddenAt: null, deletedAt: null } })
+  ]);
+
+  await followThread(threadId, reply.senderId);
+
+  // Later replies leave the root author alone if they unfollowed
+  if (root && replyCount === 1) {
+    await followThread(threadId, root.senderId);
+  }
+
+  await emitToThreadFollowers(threadId, podId, 'thread-reply', {
+    threadId,
+    roomId: reply.roomId,
+    message: reply,
+    replyCount
+  });
+};
+
+/**
+ * Load a live message of a room, checking that the user can see the room's pod
+ */
+const loadRoomMessage = async (
+  roomId: string,
+  messageId: string,
+  userId: string
+): Promise<LoadedRoomMessage | RoomMessageError> => {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: {
+      room: {
+        select: { podId: true, name: true }
+      }
+    }
+  });
+
+  if (!message || message.roomId !== roomId || !message.room || message.hiddenAt) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  const { hasAccess } = await checkPodAccess(message.room.podId, userId);
+  if (!hasAccess) {
+    return { error: 'You must be a member of this pod to manage messages', status: 403 };
+  }
+
+  if (message.deletedAt) {
+    return { error: 'This message has been deleted', status: 400 };
+  }
+
+  return { message, podId: message.room.podId, roomName: message.room.name };
+};
+
+/**
+ * Edit a room message as its author, keeping the previous content in the edit history,
+ * and broadcast `message-updated`
+ */
+export const editRoomMessage = async (
+  roomId: string,
+  messageId: string,
+  author: { id: string; name: string },
+  content: string
+): Promise<RoomMessageResult> => {
+  const trimmed = typeof content === 'string' ? content.trim() : '';
+
+  if (!trimmed) {
+    return { error: 'Message content is required', status: 400 };
+  }
+
+  const loaded = await loadRoomMessage(roomId, messageId, author.id);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const { message: existing, podId, roomName } = loaded;
+
+  if (existing.senderId !== author.id) {
+    return { error: 'Only the author can edit this message', status: 403 };
+  }
+
+  const mute = await getActivePodMute(podId, author.id);
+  if (mute) {
+    return { error: 'You are muted in this pod', status: 403, mutedUntil: mute.expiresAt };
+  }
+
+  if (trimmed === existing.content) {
+    const unchanged = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: roomMessageInclude
+    });
+    return { message: toRoomMessageResponse(unchanged!) };
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.messageEdit.create({
+      data: { messageId, content: existing.content }
+    }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content: trimmed,
+        editedAt: new Date()
+      },
+      include: roomMessageInclude
+    })
+  ]);
+
+  const response = toRoomMessageResponse(updated);
+  await emitMessageChange(updated, podId, 'message-updated', response);
+
+  await syncMentions(
+    { messageId },
+    trimmed,
+    author,
+    podAudience(podId),
+    { message: `mentioned you in ${roomName}`, linkedId: roomId, context: { podId, roomId } }
+  );
+
+  return { message: response };
+};
+
+/**
+ * Soft-delete a room message as its author or a pod moderator, and broadcast
+ * `message-deleted`. Moderator deletions are recorded in the moderation log.
+ */
+export const deleteRoomMessage = async (
+  roomId: string,
+  messageId: string,
+  userId: string
+): Promise<RoomMessageResult> => {
+  const loaded = await loadRoomMessage(roomId, messageId, userId);
+  if ('error' in loaded) {
+    return loaded;
+  }
+
+  const { message: existing, podId } = loaded;
+  const isAuthor = existing.senderId === userId;
+
+  if (!isAuthor && !(await hasPodPermission(podId, userId, 'moderate'))) {
+    return { error: 'You do not have permission to delete this message', status: 403 };
+  }
+
+  const deleted = await prisma.message.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date() },
+    include: roomMessageInclude
+  });
+
+  // Nobody should be pointed at a message that is gone
+  await prisma.mention.deleteMany({
+    where: { messageId }
+  });
+
+  if (!isAuthor) {
+    await prisma.moderationLog.create({
+      data: {
+        moderatorId: userId,
+        action: 'DELETE_CONTENT',
+        podId,
+        targetType: 'ROOM_MESSAGE',
+        targetId: messageId,
+        targetUserId: existing.senderId
+      }
+    });
+  }
+
+  await emitMessageChange(deleted, podId, 'message-deleted', {
+    id: messageId,
+    roomId,
+    threadId: deleted.parentId,
+    deletedAt: deleted.deletedAt
+  });
+
+  return { message: toRoomMessageResponse(deleted) };
+};
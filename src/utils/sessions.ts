@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import prisma from './prisma.js';
+import { generateAccessToken } from './jwt.js';
+import { ioInstance } from '../socket.js';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const hashSecret = (secret: string): string => {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+};
+
+const generateSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+const refreshTokenExpiry = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Start a new session for a user and issue its first access/refresh token pair.
+ * Refresh tokens have the form `<sessionId>.<secret>`; only a hash of the secret is stored.
+ */
+export const createSession = async (
+  userId: string,
+  role: string,
+  context: SessionContext = {}
+): Promise<SessionTokens> => {
+  const secret = generateSecret();
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt: refreshTokenExpiry()
+    }
+  });
+
+  return {
+    token: generateAccessToken(userId, role, session.id),
+    refreshToken: `${session.id}.${secret}`
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair, invalidating the old refresh token.
+ * Returns null if the token is unknown, expired, revoked or has already been used.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  context: SessionContext = {}
+): Promise<SessionTokens | null> => {
+  const [sessionId, secret] = refreshToken.split('.');
+
+  if (!sessionId || !secret) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: {
+        select: { role: true }
+      }
+    }
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  if (session.refreshTokenHash !== hashSecret(secret)) {
+    // A refresh token that was already rotated is being replayed, so it has probably leaked
+    await revokeSession(session.id);
+    return null;
+  }
+
+  const nextSecret = generateSecret();
+
+  // Conditional update so two concurrent refreshes with the same token cannot both succeed
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash: session.refreshTokenHash,
+      revokedAt: null
+    },
+    data: {
+      refreshTokenHash: hashSecret(nextSecret),
+      lastUsedAt: new Date(),
+      expiresAt: refreshTokenExpiry(),
+      ...(context.userAgent && { userAgent: context.userAgent }),
+      ...(context.ipAddress && { ipAddress: context.ipAddress })
+    }
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return {
+    token: generateAccessToken(session.userId, session.user.role, session.id),
+    refreshToken: `${session.id}.${nextSecret}`
+  };
+};
+
+/**
+ * Check that a session exists, belongs to the user and has not been revoked or expired
+ */
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true }
+  });
+
+  return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+};
+
+/**
+ * Revoke a single session and disconnect any sockets opened with it
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  ioInstance?.in(`session:${sessionId}`).disconnectSockets(true);
+};
+
+/**
+ * Revoke every active session of a user and disconnect their sockets
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+  const sessions = await prisma.session.findMany({
+    where: { userId, revokedAt: null },
+    select: { id: true }
+  });
+
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+
+  sessions.forEach(session => {
+    ioInstance?.in(`session:${session.id}`).disconnectSockets(true);
+  });
+
+  return count;
+};
@@ -0,0 +1,92 @@
+import prisma from './prisma.js';
+
+const MAX_TAG_LENGTH = 50;
+const MAX_TAGS_PER_ITEM = 20;
+
+// "#" at the start of the text or after a character that cannot be part of a word or URL fragment
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_#&/])#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Normalise a hashtag or focus area into a tag name, e.g. "#FinTech" and "Fin Tech" both become "fintech"
+ */
+export const normalizeTag = (value: string): string => {
+  return value
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_]/gu, '')
+    .slice(0, MAX_TAG_LENGTH);
+};
+
+/**
+ * Extract the distinct, normalised hashtags in a piece of text
+ */
+export const extractHashtags = (content: string): string[] => {
+  const tags = new Set<string>();
+  const pattern = new RegExp(HASHTAG_PATTERN.source, 'gu');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null && tags.size < MAX_TAGS_PER_ITEM) {
+    const tag = normalizeTag(match[2]);
+    // Skip purely numeric tags such as "#1"
+    if (tag && !/^\d+$/.test(tag)) {
+      tags.add(tag);
+    }
+  }
+
+  return [...tags];
+};
+
+/**
+ * Find or create tags by (already normalised) name
+ */
+const ensureTags = async (names: string[]): Promise<{ id: string; name: string }[]> => {
+  if (names.length === 0) {
+    return [];
+  }
+
+  await prisma.tag.createMany({
+    data: names.map(name => ({ name })),
+    skipDuplicates: true
+  });
+
+  return prisma.tag.findMany({
+    where: { name: { in: names } },
+    select: { id: true, name: true }
+  });
+};
+
+/**
+ * Replace a post's tags with the hashtags found in its content
+ */
+export const syncPostTags = async (postId: string, content: string): Promise<void> => {
+  const tags = await ensureTags(extractHashtags(content));
+
+  await prisma.$transaction([
+    prisma.postTag.deleteMany({
+      where: { postId, tagId: { notIn: tags.map(t => t.id) } }
+    }),
+    prisma.postTag.createMany({
+      data: tags.map(tag => ({ postId, tagId: tag.id })),
+      skipDuplicates: true
+    })
+  ]);
+};
+
+/**
+ * Replace a pod's tags with its focus areas
+ */
+export const syncPodTags = async (podId: string, focusAreas: string[]): Promise<void> => {
+  const names = [...new Set(focusAreas.map(normalizeTag).filter(Boolean))].slice(0, MAX_TAGS_PER_ITEM);
+  const tags = await ensureTags(names);
+
+  await prisma.$transaction([
+    prisma.podTag.deleteMany({
+      where: { podId, tagId: { notIn: tags.map(t => t.id) } }
+    }),
+    prisma.podTag.createMany({
+      data: tags.map(tag => ({ podId, tagId: tag.id })),
+      skipDuplicates: true
+    })
+  ]);
+};
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import prisma from './prisma.js';
+
+export type UserTokenType = 'EMAIL_VERIFICATION' | 'PASSWORD_RESET';
+
+// Lifetime of each token type in minutes
+const TOKEN_TTL_MINUTES: Record<UserTokenType, number> = {
+  EMAIL_VERIFICATION: 24 * 60,
+  PASSWORD_RESET: 30
+};
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Issue a single-use token for a user, invalidating any unused token of the same type.
+ * Only the hash is stored; the raw token is returned to be sent by mail.
+ */
+export const issueUserToken = async (userId: string, type: UserTokenType): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() }
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES[type] * 60 * 1000)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+/**
+ * Consume a token, returning the user it was issued to, or null if it is
+ * unknown, expired or already used
+ */
+export const consumeUserToken = async (token: string, type: UserTokenType): Promise<string | null> => {
+  const tokenHash = hashToken(token);
+
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash }
+  });
+
+  if (!userToken || userToken.type !== type) {
+    return null;
+  }
+
+  // Conditional update so the same token cannot be consumed twice concurrently
+  const { count } = await prisma.userToken.updateMany({
+    where: {
+      id: userToken.id,
+      usedAt: null,
+      expiresAt: {
+        gt: new Date()
+      }
+    },
+    data: { usedAt: new Date() }
+  });
+
+  return count === 1 ? userToken.userId : null;
+};